@@ -1,9 +1,16 @@
 
-import { Product, NewsItem, Translation, JobOpportunity, MediaItem, OrganizationProfile, CiviCRMStats, SlideData, ServiceItem, RightItem, Publication, DashboardStat, User, Partner, CurrencyRate } from './types';
+import { Product, Shop, NewsItem, Translation, ReportStatus, JobOpportunity, MediaItem, OrganizationProfile, SlideData, ServiceItem, RightItem, User, Partner, ExchangeRate, Project, JobType, ApplicationStage, SurveyRound } from './types';
 
 export const INITIAL_USERS: User[] = [
   { id: '1', username: 'admin', role: 'admin', name: 'System Administrator' },
-  { id: '2', username: 'donor', role: 'donor', name: 'Partner Organization' }
+  { id: '2', username: 'donor', role: 'donor', name: 'Partner Organization' },
+  { id: '3', username: 'volunteer', role: 'volunteer', name: 'Field Volunteer' }
+];
+
+export const INITIAL_SHOPS: Shop[] = [
+  { id: 1, nameAr: 'سوبرماركت الأمانة', nameEn: 'Al-Amana Supermarket', district: 'Al-Qahira', location: { lat: 13.5789, lng: 44.0178 }, licenseNumber: 'TZ-CM-10231', aliases: [] },
+  { id: 2, nameAr: 'بقالة النور', nameEn: 'Al-Noor Grocery', district: 'Al-Mudhaffar', location: { lat: 13.5702, lng: 44.0096 }, licenseNumber: 'TZ-CM-11876', aliases: [] },
+  { id: 3, nameAr: 'وكالة الغاز المركزية', nameEn: 'Central Gas Agency', district: 'Salh', location: { lat: 13.5921, lng: 44.0363 }, licenseNumber: 'TZ-EN-00412', aliases: [] },
 ];
 
 export const INITIAL_PRODUCTS: Product[] = [
@@ -15,16 +22,42 @@ export const INITIAL_PRODUCTS: Product[] = [
   { id: 6, code: "6291006", nameAr: "أسطوانة غاز منزلي", nameEn: "Cooking Gas Cylinder", price: 7500, unit: "Cylinder", lastUpdated: "2023-10-27", category: "Energy" },
 ];
 
+export const REPORT_STATUSES: ReportStatus[] = ['pending', 'reviewed', 'resolved'];
+
 export const SLIDES: SlideData[] = [
   { id: 1, image: 'https://images.unsplash.com/photo-1577563908411-5077b6dc7624?auto=format&fit=crop&w=1920&q=80', titleKey: 'heroTitle1', subKey: 'heroSub1', color: 'bg-primary/85' },
   { id: 2, image: 'https://images.unsplash.com/photo-1616486338812-3dadae4b4f9d?auto=format&fit=crop&w=1920&q=80', titleKey: 'heroTitle2', subKey: 'heroSub2', color: 'bg-secondary/80' },
   { id: 3, image: 'https://images.unsplash.com/photo-1589829085413-56de8ae18c73?auto=format&fit=crop&w=1920&q=80', titleKey: 'heroTitle3', subKey: 'heroSub3', color: 'bg-accent/80' }
 ];
 
-export const NEWS_DATA: NewsItem[] = [
-  { id: 1, image: "https://images.unsplash.com/photo-1577962917302-cd874c4e31d2?auto=format&fit=crop&w=800&q=80", date: "11 Nov 2025", titleKey: "news_school_title", titleAr: "ترحيب بقرار تخفيض الرسوم الدراسية", titleEn: "Welcoming School Fees Reduction", descKey: "news_school_desc", descAr: "رحبت جمعية حماية المستهلك بمحافظة تعز بقرار المحافظ رقم (137) لسنة 2025م، القاضي بتحديد وتخفيض الرسوم الدراسية في مدارس التعليم الأهلي والخاص بالمحافظة للعام الدراسي 2025–2026م.", descEn: "CPA welcomes Governor Decree (137) to reduce private school fees, a major step for parents' rights." },
-  { id: 2, image: "https://images.unsplash.com/photo-1578916171728-46686eac8d58?auto=format&fit=crop&w=800&q=80", date: "02 Aug 2025", titleKey: "news_campaign_title", titleAr: "حملة ميدانية لضبط الأسعار", titleEn: "Field Campaign for Price Control", descKey: "news_campaign_desc", descAr: "خرجت صباح اليوم سبع لجان ميدانية تابعة لمكتب الصناعة والتجارة بمحافظة تعز، بالتعاون مع الأجهزة الأمنية، لتنفيذ حملة تفتيش ميدانية تستهدف ضبط المخالفين.", descEn: "Seven field committees inspected markets to enforce prices after currency appreciation, with CPA logistical support." },
-  { id: 3, image: "https://images.unsplash.com/photo-1608686207856-001b95cf60ca?auto=format&fit=crop&w=800&q=80", date: "01 Sep 2025", titleKey: "news_food_title", titleAr: "تحذير بشأن الوجبات الجاهزة", titleEn: "Warning: Ready-made Meals", descKey: "news_food_desc", descAr: "تؤكد جمعية حماية المستهلك – تعز على المواطنين الحذر والترقب وضرورة الحرص عند شراء المخبوزات أو الوجبات الجاهزة والدواجن المشوية.", descEn: "CPA urges caution when buying baked goods/poultry, checking weights/hygiene, and reporting violations." }
+export const NEWS_DATA: Omit<NewsItem, 'id'>[] = [
+  {
+    slug: "welcoming-school-fees-reduction", status: "published", publishedAt: "2025-11-11T09:00:00.000Z", updatedAt: "2025-11-11T09:00:00.000Z",
+    image: "https://images.unsplash.com/photo-1577962917302-cd874c4e31d2?auto=format&fit=crop&w=800&q=80",
+    titleAr: "ترحيب بقرار تخفيض الرسوم الدراسية", titleEn: "Welcoming School Fees Reduction",
+    summaryAr: "رحبت الجمعية بقرار المحافظ رقم (137) بتحديد وتخفيض رسوم المدارس الأهلية، خطوة هامة لحماية حقوق أولياء الأمور.",
+    summaryEn: "CPA welcomes Governor Decree (137) to reduce private school fees, a major step for parents' rights.",
+    bodyAr: "<p>رحبت جمعية حماية المستهلك بمحافظة تعز بقرار المحافظ رقم (137) لسنة 2025م، القاضي بتحديد وتخفيض الرسوم الدراسية في مدارس التعليم الأهلي والخاص بالمحافظة للعام الدراسي 2025–2026م.</p>",
+    bodyEn: "<p>The Consumer Protection Association in Taiz welcomes Governor Decree (137) of 2025, which sets and reduces fees at private schools in the governorate for the 2025–2026 school year, a major step for parents' rights.</p>",
+  },
+  {
+    slug: "field-campaign-for-price-control", status: "published", publishedAt: "2025-08-02T09:00:00.000Z", updatedAt: "2025-08-02T09:00:00.000Z",
+    image: "https://images.unsplash.com/photo-1578916171728-46686eac8d58?auto=format&fit=crop&w=800&q=80",
+    titleAr: "حملة ميدانية لضبط الأسعار", titleEn: "Field Campaign for Price Control",
+    summaryAr: "نزول سبع لجان ميدانية لضبط المخالفين بعد تحسن الصرف، بمساهمة لوجستية من الجمعية لضمان التزام التجار.",
+    summaryEn: "Seven field committees inspected markets to enforce prices after currency appreciation, with CPA logistical support.",
+    bodyAr: "<p>خرجت صباح اليوم سبع لجان ميدانية تابعة لمكتب الصناعة والتجارة بمحافظة تعز، بالتعاون مع الأجهزة الأمنية، لتنفيذ حملة تفتيش ميدانية تستهدف ضبط المخالفين.</p>",
+    bodyEn: "<p>This morning seven field committees of the Taiz Office of Industry and Trade, together with the security services, began an inspection campaign targeting traders who did not lower their prices after the currency appreciated. CPA provided logistical support.</p>",
+  },
+  {
+    slug: "warning-ready-made-meals", status: "published", publishedAt: "2025-09-01T09:00:00.000Z", updatedAt: "2025-09-01T09:00:00.000Z",
+    image: "https://images.unsplash.com/photo-1608686207856-001b95cf60ca?auto=format&fit=crop&w=800&q=80",
+    titleAr: "تحذير بشأن الوجبات الجاهزة", titleEn: "Warning: Ready-made Meals",
+    summaryAr: "تؤكد الجمعية على الحذر عند شراء المخبوزات والدواجن، والتأكد من الوزن والنظافة، وتدعو للإبلاغ عن المخالفات.",
+    summaryEn: "CPA urges caution when buying baked goods/poultry, checking weights/hygiene, and reporting violations.",
+    bodyAr: "<p>تؤكد جمعية حماية المستهلك – تعز على المواطنين الحذر والترقب وضرورة الحرص عند شراء المخبوزات أو الوجبات الجاهزة والدواجن المشوية.</p>",
+    bodyEn: "<p>The Consumer Protection Association – Taiz urges citizens to take care when buying baked goods, ready-made meals and grilled poultry: check the weight and hygiene, and report any violation.</p>",
+  },
 ];
 
 export const SERVICES_DATA: ServiceItem[] = [
@@ -40,27 +73,42 @@ export const RIGHTS_DATA: RightItem[] = [
   { id: 'r4', icon: 'alert', questionKey: 'q_fraud', answerKey: 'a_fraud' },
 ];
 
-export const PUBLICATIONS_DATA: Publication[] = [
-  { id: 1, type: 'pdf', titleKey: 'pub_1_name', size: '2.5 MB', url: '#' },
-  { id: 2, type: 'pdf', titleKey: 'pub_2_name', size: '5.1 MB', url: '#' },
-  { id: 3, type: 'excel', titleKey: 'pub_3_name', size: '1.0 MB', url: '#' },
-];
+export const JOB_TYPES: JobType[] = ['Full-time', 'Part-time', 'Volunteer'];
 
-export const DASHBOARD_STATS: DashboardStat[] = [
-  { value: '1,250+', labelKey: 'stat_reports', color: 'bg-red-500' },
-  { value: '98%', labelKey: 'stat_resolved', color: 'bg-green-500' },
-  { value: '500+', labelKey: 'stat_inspections', color: 'bg-blue-500' },
-];
+/** Applicant pipeline in order; hired and rejected are both final. */
+export const APPLICATION_STAGES: ApplicationStage[] = ['received', 'shortlisted', 'interviewed', 'hired', 'rejected'];
 
 export const INITIAL_JOBS: JobOpportunity[] = [
-  { id: 1, titleAr: "محامي قضايا تجارية", titleEn: "Commercial Lawyer", type: "Part-time", location: "Taiz City", descriptionAr: "مطلوب محامي ذو خبرة في القوانين التجارية اليمنية لتمثيل الجمعية في قضايا حماية المستهلك.", descriptionEn: "Seeking an experienced lawyer in Yemeni commercial laws to represent the association in consumer protection cases.", deadline: "2023-12-30", postedDate: "2023-11-01" },
-  { id: 2, titleAr: "متطوع ميداني - رصد أسعار", titleEn: "Field Volunteer - Price Monitoring", type: "Volunteer", location: "Al-Qahira District", descriptionAr: "نبحث عن شباب متحمسين للمساعدة في رصد أسعار السلع الأساسية بشكل دوري.", descriptionEn: "We are looking for enthusiastic youth to help monitor basic commodity prices regularly.", deadline: "Open", postedDate: "2023-11-05" }
+  { id: 1, titleAr: "محامي قضايا تجارية", titleEn: "Commercial Lawyer", type: "Part-time", location: "Taiz City", descriptionAr: "مطلوب محامي ذو خبرة في القوانين التجارية اليمنية لتمثيل الجمعية في قضايا حماية المستهلك.", descriptionEn: "Seeking an experienced lawyer in Yemeni commercial laws to represent the association in consumer protection cases.", deadline: "2026-12-31", postedDate: "2026-10-01", status: "open" },
+  { id: 2, titleAr: "متطوع ميداني - رصد أسعار", titleEn: "Field Volunteer - Price Monitoring", type: "Volunteer", location: "Al-Qahira District", descriptionAr: "نبحث عن شباب متحمسين للمساعدة في رصد أسعار السلع الأساسية بشكل دوري.", descriptionEn: "We are looking for enthusiastic youth to help monitor basic commodity prices regularly.", deadline: null, postedDate: "2026-10-05", status: "open" }
 ];
 
 export const INITIAL_MEDIA: MediaItem[] = [
-  { id: 1, type: 'video', url: 'https://images.unsplash.com/photo-1541818869156-d3d134141542?auto=format&fit=crop&w=800&q=80', captionAr: 'تصريح رئيس الجمعية في قناة تعز تايم', captionEn: 'Association President Statement', date: '2025-08-02' },
-  { id: 2, type: 'image', url: 'https://images.unsplash.com/photo-1577962917302-cd874c4e31d2?auto=format&fit=crop&w=800&q=80', captionAr: 'اجتماع مناقشة الرسوم الدراسية', captionEn: 'School Fees Discussion Meeting', date: '2025-11-10' },
-  { id: 3, type: 'image', url: 'https://images.unsplash.com/photo-1626125345510-470304d4150c?auto=format&fit=crop&w=800&q=80', captionAr: 'وقفة احتجاجية: الدواء خدمة لا سلعة', captionEn: 'Protest: Medicine is a service, not a commodity', date: '2025-09-01' },
+  { id: 1, type: 'image', url: 'https://images.unsplash.com/photo-1541818869156-d3d134141542?auto=format&fit=crop&w=1600&q=80', variants: [], thumbnail: 'https://images.unsplash.com/photo-1541818869156-d3d134141542?auto=format&fit=crop&w=480&h=360&q=80', captionAr: 'تصريح رئيس الجمعية في قناة تعز تايم', captionEn: 'Association President Statement', date: '2025-08-02', albumId: null, tags: [] },
+  { id: 2, type: 'image', url: 'https://images.unsplash.com/photo-1577962917302-cd874c4e31d2?auto=format&fit=crop&w=1600&q=80', variants: [], thumbnail: 'https://images.unsplash.com/photo-1577962917302-cd874c4e31d2?auto=format&fit=crop&w=480&h=360&q=80', captionAr: 'اجتماع مناقشة الرسوم الدراسية', captionEn: 'School Fees Discussion Meeting', date: '2025-11-10', albumId: null, tags: [] },
+  { id: 3, type: 'image', url: 'https://images.unsplash.com/photo-1626125345510-470304d4150c?auto=format&fit=crop&w=1600&q=80', variants: [], thumbnail: 'https://images.unsplash.com/photo-1626125345510-470304d4150c?auto=format&fit=crop&w=480&h=360&q=80', captionAr: 'وقفة احتجاجية: الدواء خدمة لا سلعة', captionEn: 'Protest: Medicine is a service, not a commodity', date: '2025-09-01', albumId: null, tags: [] },
+];
+
+export const INITIAL_PROJECTS: Project[] = [
+  {
+    id: 1,
+    nameAr: 'رصد أسعار السلع الأساسية في تعز', nameEn: 'Staple Food Price Monitoring in Taiz',
+    descriptionAr: 'دعم فرق الرصد الميداني ومعالجة بلاغات المواطنين عن مخالفات أسعار الغذاء الأساسي.',
+    descriptionEn: 'Funds field monitoring teams and the handling of citizen reports on staple food price violations.',
+    donorIds: ['2'], budget: 12000, currency: 'USD', startDate: '2025-01-01', endDate: '2026-12-31',
+    categories: ['Dairy', 'Grains', 'Oils', 'Sugar'], districts: [],
+    expenses: [
+      { id: 'seed-1', date: '2025-02-15', description: 'Field monitor stipends (Q1)', amount: 1800 },
+      { id: 'seed-2', date: '2025-05-10', description: 'Hotline and SMS credit', amount: 650 },
+    ],
+  },
+];
+
+export const INITIAL_SURVEY_ROUNDS: SurveyRound[] = [
+  {
+    id: 1, name: 'October 2026 staples round', startDate: '2026-10-01', endDate: '2026-10-31', status: 'active',
+    assignments: [{ volunteerId: '3', productCodes: ['6291001', '6291002', '6291004'], districts: ['Al-Qahira', 'Al-Mudhaffar'] }],
+  },
 ];
 
 export const INITIAL_PROFILE: OrganizationProfile = {
@@ -73,21 +121,6 @@ export const INITIAL_PROFILE: OrganizationProfile = {
   phone: "+967 4 123456", email: "info@cpa-ye.org", addressAr: "شارع جمال، تعز، الجمهورية اليمنية", addressEn: "Gamal Street, Taiz, Republic of Yemen"
 };
 
-export const MOCK_CRM_STATS: CiviCRMStats = {
-  totalDonors: 145,
-  activeProjects: 12,
-  totalDonations: 2500000,
-  lastSync: "2023-11-10 09:30 AM",
-  trends: [
-    { month: 'Jun', amount: 450000 },
-    { month: 'Jul', amount: 520000 },
-    { month: 'Aug', amount: 480000 },
-    { month: 'Sep', amount: 610000 },
-    { month: 'Oct', amount: 590000 },
-    { month: 'Nov', amount: 720000 }
-  ]
-};
-
 export const PARTNERS_DATA: Partner[] = [
   { id: 1, nameAr: "وزارة الصناعة والتجارة", nameEn: "Ministry of Industry & Trade", logo: "https://via.placeholder.com/150?text=MOIT" },
   { id: 2, nameAr: "الغرفة التجارية - تعز", nameEn: "Taiz Chamber of Commerce", logo: "https://via.placeholder.com/150?text=COC" },
@@ -95,9 +128,11 @@ export const PARTNERS_DATA: Partner[] = [
   { id: 4, nameAr: "منظمة الصحة العالمية", nameEn: "WHO", logo: "https://via.placeholder.com/150?text=WHO" },
 ];
 
-export const CURRENCY_RATES: CurrencyRate[] = [
-  { currency: "USD", buy: 1650, sell: 1660, indicator: 'stable' },
-  { currency: "SAR", buy: 435, sell: 438, indicator: 'up' },
+export const INITIAL_EXCHANGE_RATES: Omit<ExchangeRate, 'id'>[] = [
+  { currency: "USD", buy: 1650, sell: 1660, recordedAt: "2025-10-01T08:00:00.000Z", source: "Initial listing" },
+  { currency: "SAR", buy: 432, sell: 435, recordedAt: "2025-10-01T08:00:00.000Z", source: "Initial listing" },
+  { currency: "USD", buy: 1650, sell: 1660, recordedAt: "2025-10-02T08:00:00.000Z", source: "Initial listing" },
+  { currency: "SAR", buy: 435, sell: 438, recordedAt: "2025-10-02T08:00:00.000Z", source: "Initial listing" },
 ];
 
 export const TEXTS: Translation = {
@@ -105,6 +140,7 @@ export const TEXTS: Translation = {
   home: { ar: "الرئيسية", en: "Home" },
   news: { ar: "الأخبار", en: "News" },
   library: { ar: "المكتبة", en: "Gallery" },
+  publications: { ar: "الإصدارات", en: "Publications" },
   prices: { ar: "الأسعار", en: "Prices" },
   report: { ar: "بلغ عن مخالفة", en: "Report Violation" },
   admin: { ar: "لوحة التحكم", en: "Admin Panel" },
@@ -126,18 +162,33 @@ export const TEXTS: Translation = {
   srv_3_title: { ar: "التوعية الشاملة", en: "Awareness" },
   srv_3_desc: { ar: "اعرف حقوقك وكيف تحمي نفسك.", en: "Know your rights and stay protected." },
   news_title: { ar: "أخبار وأنشطة الجمعية", en: "News & Activities" },
-  news_school_title: { ar: "ترحيب بقرار تخفيض الرسوم الدراسية", en: "Welcoming School Fees Reduction" },
-  news_school_desc: { ar: "رحبت الجمعية بقرار المحافظ رقم (137) بتحديد وتخفيض رسوم المدارس الأهلية، خطوة هامة لحماية حقوق أولياء الأمور.", en: "CPA welcomes Governor Decree (137) to reduce private school fees, a major step for parents' rights." },
-  news_campaign_title: { ar: "حملة ميدانية لضبط الأسعار", en: "Field Campaign for Price Control" },
-  news_campaign_desc: { ar: "نزول سبع لجان ميدانية لضبط المخالفين بعد تحسن الصرف، بمساهمة لوجستية من الجمعية لضمان التزام التجار.", en: "Seven field committees inspected markets to enforce prices after currency appreciation, with CPA logistical support." },
-  news_food_title: { ar: "تحذير بشأن الوجبات الجاهزة", en: "Warning: Ready-made Meals" },
-  news_food_desc: { ar: "تؤكد الجمعية على الحذر عند شراء المخبوزات والدواجن، والتأكد من الوزن والنظافة، وتدعو للإبلاغ عن المخالفات.", en: "CPA urges caution when buying baked goods/poultry, checking weights/hygiene, and reporting violations." },
   read_more: { ar: "اقرأ المزيد ←", en: "Read More →" },
-  gallery_title: { ar: "مكتبة الصور", en: "Photo Gallery" },
+  news_all: { ar: "كل الأخبار", en: "All news" },
+  news_empty: { ar: "لا توجد أخبار منشورة بعد.", en: "No news has been published yet." },
+  news_not_found: { ar: "هذا الخبر غير موجود أو لم يُنشر بعد.", en: "This article does not exist or has not been published yet." },
+  back_to_news: { ar: "→ العودة إلى الأخبار", en: "← Back to news" },
+  gallery_title: { ar: "معرض الصور والفيديو", en: "Photo & Video Gallery" },
+  gallery_sub: { ar: "صور ومقاطع من أنشطة الجمعية وحملاتها الميدانية.", en: "Photos and videos from the association's activities and field campaigns." },
+  gallery_empty: { ar: "لا توجد صور أو مقاطع في هذا التصنيف.", en: "There are no photos or videos here yet." },
+  all_albums: { ar: "كل الألبومات", en: "All albums" },
+  all_tags: { ar: "كل الوسوم", en: "All tags" },
+  gallery_previous: { ar: "السابق", en: "Previous" },
+  gallery_next: { ar: "التالي", en: "Next" },
+  close: { ar: "إغلاق", en: "Close" },
   pubs_title: { ar: "الإصدارات واللوائح", en: "Publications & Regulations" },
-  pub_1_name: { ar: "النظام الأساسي للجمعية", en: "Association Bylaws" },
-  pub_2_name: { ar: "قانون حماية المستهلك", en: "Consumer Protection Law" },
-  pub_3_name: { ar: "قائمة الأسعار", en: "Price List" },
+  pubs_sub: { ar: "النظام الأساسي والقوانين والتقارير الصادرة عن الجمعية، مع البحث داخل نصوص الملفات.", en: "The association's bylaws, laws and reports, searchable down to the text inside each file." },
+  pubs_search: { ar: "ابحث في العناوين ونصوص الملفات...", en: "Search titles and document text..." },
+  pubs_empty: { ar: "لا توجد إصدارات منشورة بعد.", en: "No publications have been published yet." },
+  pubs_no_results: { ar: "لا توجد نتائج مطابقة.", en: "No matching documents." },
+  pubs_download: { ar: "تحميل", en: "Download" },
+  pubs_downloads: { ar: "مرات التحميل", en: "Downloads" },
+  pubs_pages: { ar: "صفحة", en: "pages" },
+  pubs_page: { ar: "صفحة", en: "Page" },
+  pubs_version: { ar: "الإصدار", en: "Version" },
+  pubs_updated: { ar: "آخر تحديث", en: "Updated" },
+  pubs_previous_versions: { ar: "الإصدارات السابقة", en: "Previous versions" },
+  pubs_price_list: { ar: "قائمة الأسعار الرسمية", en: "Official Price List" },
+  pubs_price_list_sub: { ar: "تُنشأ من الأسعار الحالية عند كل تحميل (Excel).", en: "Generated from the current prices on every download (Excel)." },
   rights_title: { ar: "دليلك القانوني", en: "Your Legal Guide" },
   q_return: { ar: "هل يحق لي استرجاع السلعة؟", en: "Can I return a product?" },
   a_return: { ar: "نعم، يحق لك استرجاع السلعة أو استبدالها خلال فترة الضمان إذا ظهر فيها عيب.", en: "Yes, you have the right to return or exchange within warranty if defective." },
@@ -150,10 +201,19 @@ export const TEXTS: Translation = {
   transparency_title: { ar: "لوحة الشفافية", en: "Transparency Dashboard" },
   stat_reports: { ar: "بلاغ تم استلامه", en: "Reports Received" },
   stat_resolved: { ar: "نسبة الحل", en: "Resolution Rate" },
-  stat_inspections: { ar: "نزول ميداني", en: "Field Inspections" },
+  stat_followed_up: { ar: "بلاغ تمت متابعته", en: "Reports Followed Up" },
+  stat_median_days: { ar: "الوسيط لأيام المعالجة", en: "Median Days to Resolve" },
   top_violations: { ar: "السلع الأكثر مخالفة", en: "Top Violations" },
+  top_categories: { ar: "الفئات الأكثر مخالفة", en: "Most Reported Categories" },
+  monthly_trends: { ar: "البلاغات خلال آخر 12 شهراً", en: "Reports Over the Last 12 Months" },
+  reports_count: { ar: "بلاغ", en: "reports" },
+  open_data: { ar: "البيانات المفتوحة", en: "Open Data" },
+  open_data_hint: { ar: "بيانات البلاغات دون أي معلومات شخصية، للصحفيين والشركاء.", en: "Report data without any personal details, for journalists and partners." },
+  transparency_updated: { ar: "آخر تحديث", en: "Last updated" },
   partners_title: { ar: "شركاء النجاح", en: "Our Partners" },
   currency_title: { ar: "أسعار الصرف - تعز", en: "Exchange Rates - Taiz" },
+  rates_updated: { ar: "آخر تحديث", en: "Updated" },
+  rates_unavailable: { ar: "أسعار الصرف غير متاحة حالياً", en: "Rates unavailable" },
   footer_about: { ar: "عن الجمعية", en: "About CPA" },
   footer_desc: { ar: "منظمة مدنية طوعية تعمل وفق قانون الجمعيات والمؤسسات الأهلية.", en: "Voluntary civil organization operating under the Law of Associations." },
   footer_contact: { ar: "تواصل معنا", en: "Contact Us" },
@@ -168,16 +228,162 @@ export const TEXTS: Translation = {
   loc_success: { ar: "تم تحديد الموقع بنجاح", en: "Location Set Successfully" },
   details: { ar: "تفاصيل البلاغ", en: "Report Details" },
   submit: { ar: "إرسال البلاغ", en: "Submit Report" },
+  prices_title: { ar: "دليل الأسعار الرسمية", en: "Official Price Guide" },
+  prices_sub: { ar: "الأسعار المعتمدة للسلع الأساسية في محافظة تعز. ابحث بالاسم أو بالباركود.", en: "Approved prices of essential goods in Taiz. Search by name or barcode." },
+  search_products: { ar: "ابحث باسم السلعة أو الباركود...", en: "Search by product name or barcode..." },
+  all_categories: { ar: "الكل", en: "All" },
+  code: { ar: "الباركود", en: "Barcode" },
+  unit: { ar: "الوحدة", en: "Unit" },
+  last_updated: { ar: "آخر تحديث", en: "Last Updated" },
+  price_history: { ar: "تاريخ السعر", en: "Price History" },
+  history_empty: { ar: "لا يوجد تاريخ سعري لهذه السلعة بعد.", en: "No price history for this product yet." },
+  report_price: { ar: "بلّغ عن هذا السعر", en: "Report this price" },
+  no_products: { ar: "لا توجد سلع مطابقة للبحث.", en: "No products match your search." },
+  scan_barcode: { ar: "مسح الباركود", en: "Scan Barcode" },
+  scan_hint: { ar: "وجّه الكاميرا نحو باركود السلعة، أو أدخل الرمز يدوياً.", en: "Point the camera at the product barcode, or type the code." },
+  camera_error: { ar: "تعذر تشغيل الكاميرا. تحقق من الإذن أو أدخل الرمز يدوياً.", en: "Could not start the camera. Check the permission or type the code." },
+  unknown_code: { ar: "الرمز غير موجود في القائمة الرسمية:", en: "Code not in the official list:" },
+  enter_code: { ar: "رمز الباركود", en: "Barcode number" },
+  scan_again: { ar: "مسح سلعة أخرى", en: "Scan another" },
+  cat_Dairy: { ar: "ألبان", en: "Dairy" },
+  cat_Grains: { ar: "حبوب", en: "Grains" },
+  cat_Oils: { ar: "زيوت", en: "Oils" },
+  cat_Sugar: { ar: "سكر", en: "Sugar" },
+  cat_Energy: { ar: "طاقة", en: "Energy" },
+  unit_Bottle: { ar: "علبة", en: "Bottle" },
+  unit_Bag: { ar: "كيس", en: "Bag" },
+  unit_Packet: { ar: "باكت", en: "Packet" },
+  unit_Cylinder: { ar: "أسطوانة", en: "Cylinder" },
   report_title: { ar: "الإبلاغ عن مخالفة", en: "Report a Violation" },
+  report_sub: { ar: "ساعدنا في ضبط الأسعار، بلاغك يصل مباشرة إلى فرق الرقابة الميدانية.", en: "Help us enforce prices. Your report goes straight to our field teams." },
+  step_product: { ar: "السلعة والسعر", en: "Product & Price" },
+  step_shop: { ar: "المحل والموقع", en: "Shop & Location" },
+  step_evidence: { ar: "الإثبات", en: "Evidence" },
+  step_review: { ar: "المراجعة", en: "Review" },
+  select_product: { ar: "اختر السلعة من القائمة الرسمية", en: "Select a product from the official list" },
+  official_price: { ar: "السعر الرسمي", en: "Official Price" },
+  price_ok: { ar: "السعر ضمن القائمة الرسمية", en: "Price is within the official list" },
+  detect_location: { ar: "تحديد موقعي", en: "Detect My Location" },
+  locating: { ar: "جاري تحديد الموقع...", en: "Locating..." },
+  loc_error: { ar: "تعذر تحديد الموقع، يمكنك المتابعة بدونه.", en: "Could not get your location, you may continue without it." },
+  evidence_photo: { ar: "صورة الإثبات (الرف أو الفاتورة)", en: "Evidence Photo (shelf or receipt)" },
+  upload_photo: { ar: "التقط أو ارفع صورة", en: "Take or upload a photo" },
+  photo_error: { ar: "تعذرت قراءة الصورة، جرّب صورة أخرى.", en: "Could not read this photo, please try another one." },
+  remove: { ar: "إزالة", en: "Remove" },
+  details_hint: { ar: "صف ما حدث باختصار...", en: "Briefly describe what happened..." },
+  next: { ar: "التالي", en: "Next" },
+  back: { ar: "السابق", en: "Back" },
+  tracking_id: { ar: "رقم التتبع", en: "Tracking ID" },
+  tracking_hint: { ar: "احتفظ بهذا الرقم لمتابعة حالة بلاغك.", en: "Keep this number to follow up on your report." },
+  new_report: { ar: "بلاغ جديد", en: "New Report" },
+  track: { ar: "تتبع بلاغ", en: "Track Report" },
+  track_title: { ar: "متابعة حالة البلاغ", en: "Track Your Report" },
+  track_sub: { ar: "أدخل رقم التتبع الذي حصلت عليه عند إرسال البلاغ.", en: "Enter the tracking number you received when you submitted your report." },
+  track_button: { ar: "بحث", en: "Track" },
+  track_not_found: { ar: "لا يوجد بلاغ بهذا الرقم، تأكد من كتابته بشكل صحيح.", en: "No report found with this number. Please check it and try again." },
+  track_error: { ar: "تعذر جلب حالة البلاغ، حاول لاحقاً.", en: "Could not load the report status, please try again later." },
+  track_submitted: { ar: "تاريخ الإرسال", en: "Submitted" },
+  track_updates: { ar: "التحديثات", en: "Updates" },
+  track_received: { ar: "تم استلام البلاغ", en: "Report received" },
+  track_status_changed: { ar: "تغيرت الحالة إلى:", en: "Status changed to:" },
+  track_report: { ar: "تابع حالة بلاغك", en: "Track this report" },
+  status_pending: { ar: "قيد الانتظار", en: "Pending" },
+  status_reviewed: { ar: "قيد المراجعة", en: "Under review" },
+  status_resolved: { ar: "تمت المعالجة", en: "Resolved" },
+  notify_me: { ar: "إشعاري بالتحديثات (اختياري)", en: "Notify me about updates (optional)" },
+  notify_hint: { ar: "نرسل لك رقم التتبع وأي تغيير في حالة البلاغ. لا يظهر رقمك أو بريدك في صفحة التتبع.", en: "We send you the tracking number and every status change. Your number or email is never shown on the tracking page." },
+  notify_none: { ar: "بدون إشعار", en: "No thanks" },
+  notify_confirm: { ar: "سنرسل لك التحديثات عبر", en: "We will send updates via" },
+  channel_sms: { ar: "رسالة نصية", en: "SMS" },
+  channel_whatsapp: { ar: "واتساب", en: "WhatsApp" },
+  channel_email: { ar: "البريد الإلكتروني", en: "Email" },
+  offline: { ar: "غير متصل", en: "Offline" },
+  outbox_title: { ar: "بلاغات بانتظار الإرسال", en: "Pending uploads" },
+  outbox_send_now: { ar: "إرسال الآن", en: "Send now" },
+  outbox_offline_hint: { ar: "أنت غير متصل بالإنترنت. ستُرسل البلاغات تلقائياً عند عودة الاتصال.", en: "You are offline. Reports will be sent automatically when the connection returns." },
+  outbox_empty: { ar: "لا توجد بلاغات بانتظار الإرسال.", en: "No reports waiting to be sent." },
+  outbox_pending: { ar: "بانتظار الاتصال", en: "Waiting for connection" },
+  outbox_failed: { ar: "رُفض", en: "Rejected" },
+  outbox_retry: { ar: "إعادة المحاولة", en: "Retry" },
+  queued_title: { ar: "تم حفظ البلاغ على جهازك", en: "Report saved on your device" },
+  queued_hint: { ar: "لا يوجد اتصال حالياً. سنرسل البلاغ مع الصورة تلقائياً عند عودة الاتصال، وستجد رقم التتبع في قائمة البلاغات المعلقة أعلى الصفحة.", en: "There is no connection right now. We will send the report and its photo automatically once you are back online; the tracking number will appear in the pending uploads list at the top of the page." },
+  donor_portal: { ar: "بوابة المانحين", en: "Donor Portal" },
+  survey_portal: { ar: "رصد الأسعار", en: "Price Survey" },
+  survey_title: { ar: "رصد الأسعار الميداني", en: "Field Price Survey" },
+  survey_sub: { ar: "اختر المحل الذي تزوره ثم أدخل الأسعار المعروضة على الرفوف.", en: "Choose the shop you are visiting, then enter the shelf prices you see." },
+  survey_none: { ar: "لا توجد جولة رصد مسندة إليك حالياً.", en: "You have no active survey round at the moment." },
+  survey_choose_shop: { ar: "اختر المحل…", en: "Choose a shop…" },
+  survey_shops_done: { ar: "محلات تم رصدها", en: "shops surveyed" },
+  survey_recorded: { ar: "المسجل", en: "recorded" },
+  survey_price: { ar: "السعر", en: "Price" },
+  survey_submit: { ar: "حفظ الأسعار", en: "Save prices" },
+  survey_saved: { ar: "تم حفظ الأسعار، يمكنك الانتقال للمحل التالي.", en: "Prices saved. You can move on to the next shop." },
+  donor_title: { ar: "المشاريع التي تدعمونها", en: "Projects You Fund" },
+  donor_sub: { ar: "الميزانية والمصروفات ونتائج معالجة البلاغات لكل مشروع، محدثة لحظياً.", en: "Budget, spending and report-handling outcomes for each project, updated live." },
+  donor_empty: { ar: "لا توجد مشاريع مرتبطة بحسابكم بعد.", en: "No projects are linked to your account yet." },
+  donor_ongoing: { ar: "مستمر", en: "ongoing" },
+  donor_whole_project: { ar: "كامل مدة المشروع", en: "Whole project" },
+  donor_download: { ar: "تقرير الأثر (PDF)", en: "Impact report (PDF)" },
+  donor_budget: { ar: "الميزانية", en: "Budget" },
+  donor_spent: { ar: "المصروف", en: "Spent" },
+  donor_remaining: { ar: "المتبقي", en: "Remaining" },
+  donor_outcomes: { ar: "مؤشرات النتائج", en: "Outcome indicators" },
+  donor_monthly: { ar: "البلاغات شهرياً", en: "Reports per month" },
+  donor_expenses: { ar: "المصروفات في الفترة", en: "Expenses in this period" },
+  donor_no_expenses: { ar: "لا توجد مصروفات مسجلة في هذه الفترة.", en: "No expenses recorded in this period." },
+  outcome_received: { ar: "بلاغات مستلمة", en: "Reports received" },
+  outcome_resolved: { ar: "بلاغات معالجة", en: "Reports resolved" },
+  outcome_rate: { ar: "نسبة المعالجة", en: "Resolution rate" },
+  outcome_median_days: { ar: "الوسيط لأيام المعالجة", en: "Median days to resolve" },
+  outcome_overcharge: { ar: "مخالفات سعرية", en: "Overcharging reports" },
+  outcome_shops: { ar: "محلات معنية", en: "Shops involved" },
+  currency_yr: { ar: "ريال", en: "YR" },
+  submit_error: { ar: "تعذر إرسال البلاغ، يرجى المحاولة مرة أخرى.", en: "Could not submit the report, please try again." },
   applyNow: { ar: "قدّم الآن", en: "Apply Now" },
+  careers_title: { ar: "فرص العمل والتطوع", en: "Jobs & Volunteering" },
+  careers_sub: { ar: "انضم إلى فريق الجمعية في الدفاع عن حقوق المستهلك.", en: "Join the association's team in defending consumer rights." },
+  careers_empty: { ar: "لا توجد فرص متاحة حالياً.", en: "There are no open positions at the moment." },
+  all_types: { ar: "كل الأنواع", en: "All types" },
+  all_locations: { ar: "كل المواقع", en: "All locations" },
+  job_type_full_time: { ar: "دوام كامل", en: "Full-time" },
+  job_type_part_time: { ar: "دوام جزئي", en: "Part-time" },
+  job_type_volunteer: { ar: "تطوع", en: "Volunteer" },
+  job_deadline: { ar: "آخر موعد للتقديم", en: "Apply by" },
+  job_open_until_filled: { ar: "حتى شغل الوظيفة", en: "Until filled" },
+  apply_name: { ar: "الاسم الكامل", en: "Full name" },
+  apply_email: { ar: "البريد الإلكتروني", en: "Email" },
+  apply_phone: { ar: "رقم الهاتف (اختياري)", en: "Phone (optional)" },
+  apply_cover: { ar: "رسالة تعريفية (اختياري)", en: "Cover letter (optional)" },
+  apply_cv: { ar: "السيرة الذاتية", en: "CV" },
+  apply_cv_hint: { ar: "PDF أو Word، بحد أقصى 5 ميجابايت", en: "PDF or Word, up to 5 MB" },
+  apply_submit: { ar: "إرسال الطلب", en: "Send application" },
+  apply_success: { ar: "تم استلام طلبك، سنتواصل معك عبر البريد الإلكتروني.", en: "Your application was received. We will contact you by email." },
   analyzing: { ar: "جاري التحليل بالذكاء الاصطناعي...", en: "Analyzing with AI..." },
   successMsg: { ar: "تم إرسال البلاغ بنجاح!", en: "Report Submitted Successfully!" },
   aiFeedback: { ar: "تحليل المساعد الذكي:", en: "AI Assistant Analysis:" },
+  recommended_action: { ar: "الإجراء المقترح", en: "Recommended action" },
+  severity_low: { ar: "خطورة منخفضة", en: "Low severity" },
+  severity_medium: { ar: "خطورة متوسطة", en: "Medium severity" },
+  severity_high: { ar: "خطورة عالية", en: "High severity" },
+  evidence_check: { ar: "فحص صورة الإثبات", en: "Evidence photo check" },
+  photo_price: { ar: "السعر في الصورة", en: "Price in photo" },
+  photo_product: { ar: "المنتج في الصورة", en: "Product in photo" },
+  photo_expiry: { ar: "تاريخ الانتهاء", en: "Expiry date" },
+  evidence_consistent: { ar: "الصورة تطابق بيانات البلاغ", en: "Photo matches the report" },
+  flag_price_mismatch: { ar: "السعر في الصورة يختلف عن المُبلَّغ عنه", en: "Photo price differs from reported price" },
+  flag_product_mismatch: { ar: "المنتج في الصورة مختلف", en: "Photo shows a different product" },
+  flag_expired: { ar: "المنتج منتهي الصلاحية", en: "Product is past its expiry date" },
+  flag_unreadable: { ar: "تعذرت قراءة الصورة", en: "Photo could not be read" },
   dashboard: { ar: "لوحة التحكم", en: "Dashboard" },
   settings: { ar: "الإعدادات", en: "Settings" },
   login: { ar: "تسجيل الدخول", en: "Login" },
   username: { ar: "اسم المستخدم", en: "Username" },
   password: { ar: "كلمة المرور", en: "Password" },
+  login_invalid: { ar: "اسم المستخدم أو كلمة المرور غير صحيحة", en: "Invalid username or password" },
+  login_error: { ar: "تعذر تسجيل الدخول، حاول مرة أخرى.", en: "Could not sign in, please try again." },
   users: { ar: "المستخدمين", en: "Users" },
   content: { ar: "إدارة المحتوى", en: "Content Mgmt" },
+  loading: { ar: "جاري التحميل...", en: "Loading..." },
+  load_error: { ar: "تعذر تحميل البيانات من الخادم", en: "Could not load data from the server" },
+  retry: { ar: "إعادة المحاولة", en: "Retry" },
 };
@@ -7,6 +7,13 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Only production builds: in development the worker would cache Vite's modules and defeat HMR.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed:', error));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,39 @@
+import { User } from './types';
+
+export type Role = User['role'];
+
+export const ROLES: Role[] = ['admin', 'staff', 'volunteer', 'donor'];
+
+export type Permission =
+  | 'dashboard:view'
+  | 'users:manage'
+  | 'content:manage'
+  | 'products:manage'
+  | 'reports:read'
+  | 'reports:manage'
+  | 'hr:manage'
+  | 'crm:read'
+  | 'crm:sync'
+  | 'projects:manage'
+  | 'rates:manage'
+  | 'donor:portal'
+  | 'surveys:manage'
+  | 'surveys:submit'
+  | 'settings:manage';
+
+// Single source of truth for what each role may do. The admin sidebar hides what a
+// role cannot use and the API enforces the same map, so the two never drift apart.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'dashboard:view', 'users:manage', 'content:manage', 'products:manage', 'reports:read', 'reports:manage',
+    'hr:manage', 'crm:read', 'crm:sync', 'projects:manage', 'rates:manage', 'surveys:manage', 'settings:manage',
+  ],
+  staff: ['dashboard:view', 'content:manage', 'products:manage', 'reports:read', 'reports:manage', 'hr:manage', 'rates:manage', 'surveys:manage'],
+  // Field volunteers only record prices for the survey rounds they are assigned to.
+  volunteer: ['surveys:submit'],
+  // Donors only get their own portal: the projects they fund, never organisation-wide data.
+  donor: ['donor:portal'],
+};
+
+export const can = (user: Pick<User, 'role'> | null | undefined, permission: Permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
@@ -0,0 +1,99 @@
+// Offline support for field volunteers with patchy connectivity. Kept as plain JavaScript in
+// public/ so it is served from the site root unbundled and can control every page.
+//
+// - The app page: network first, falling back to the cached app shell. The app uses hash routes, so
+//   other navigations are file downloads and exports (some private, like CVs) and are never cached.
+// - Built assets: precached on install (the build writes their names into BUILD_ASSETS, see
+//   vite.config.ts), so one visit is enough to work offline.
+// - Other same-origin files and the CDN styles/fonts: served from cache, refreshed in the background.
+// - Price list, exchange rates, organisation profile, news, job postings, the media gallery, the publications list and transparency figures: network first, falling back to the last copy.
+// - Video streaming (Range requests): left to the browser, since partial responses cannot be cached.
+// Report submissions are not handled here: the app queues them in IndexedDB (services/outbox.ts).
+
+const VERSION = 'v2';
+const SHELL_CACHE = `cpa-shell-${VERSION}`;
+const DATA_CACHE = `cpa-data-${VERSION}`;
+const APP_PAGES = ['/', '/index.html'];
+const BUILD_ASSETS = [];
+const SHELL_URLS = ['/index.html', '/manifest.webmanifest', ...BUILD_ASSETS];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CACHED_API = [/^\/api\/products(\/\d+\/revisions)?$/, /^\/api\/profile$/, /^\/api\/news(\/(?!manage$)[a-z0-9-]+)?$/, /^\/api\/transparency$/, /^\/api\/rates$/, /^\/api\/jobs$/, /^\/api\/media(\/albums)?$/, /^\/api\/publications$/];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+// Drops caches of older versions and the assets of earlier builds.
+const pruneShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const stale = (await cache.keys()).filter(request => {
+    const { pathname } = new URL(request.url);
+    return pathname.startsWith('/assets/') && !BUILD_ASSETS.includes(pathname);
+  });
+  await Promise.all(stale.map(request => cache.delete(request)));
+};
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('cpa-') && ![SHELL_CACHE, DATA_CACHE].includes(key)).map(key => caches.delete(key))))
+      .then(() => BUILD_ASSETS.length && pruneShell())
+      .then(() => self.clients.claim())
+  );
+});
+
+const appShell = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    // An error page from a proxy is not worth keeping as the offline app.
+    if (response.ok && response.headers.get('content-type')?.startsWith('text/html')) cache.put('/index.html', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(response => {
+    // CDN stylesheets and the Tailwind script load without CORS, so their responses are opaque.
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    if (url.origin === self.location.origin && APP_PAGES.includes(url.pathname)) event.respondWith(appShell(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) {
+    if (CACHED_API.some(pattern => pattern.test(url.pathname))) event.respondWith(networkFirst(request, DATA_CACHE));
+  } else if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
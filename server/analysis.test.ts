@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeViolation, compareEvidence, parseAnalysis, stubProvider, type AnalysisInput, type AnalysisProvider, type EvidenceExtraction } from './analysis';
+import { HttpError } from './errors';
+
+const input = (overrides: Partial<AnalysisInput> = {}): AnalysisInput => ({
+  productName: 'Flour', officialPrice: 1000, reportedPrice: 1000, description: '', language: 'en', ...overrides,
+});
+
+const VALID = {
+  percentageIncrease: 20, severity: 'medium', recommendedAction: 'Warn the shop.', summary: 'Notable overcharge.', language: 'en', provider: 'gemini',
+};
+
+/** Asserts that `action` throws the 400 the API answers malformed analyses with. */
+const rejects400 = (action: () => unknown) => assert.throws(action, (error: unknown) => error instanceof HttpError && error.status === 400);
+
+describe('stubProvider', () => {
+  for (const [reportedPrice, percentage, severity] of [
+    [1000, 0, 'low'], [900, 0, 'low'], [1149, 14.9, 'low'], [1150, 15, 'medium'], [1499, 49.9, 'medium'], [1500, 50, 'high'], [3000, 200, 'high'],
+  ] as const) {
+    it(`rates ${reportedPrice} against an official 1000 as ${severity}`, async () => {
+      const analysis = await stubProvider.analyze(input({ reportedPrice }));
+      assert.equal(analysis.percentageIncrease, percentage);
+      assert.equal(analysis.severity, severity);
+      assert.equal(analysis.provider, 'stub');
+    });
+  }
+
+  it('writes in the requested language and says when the price is within the official one', async () => {
+    assert.equal((await stubProvider.analyze(input())).summary, 'The reported price is within the official price.');
+    const arabic = await stubProvider.analyze(input({ reportedPrice: 1500, language: 'ar' }));
+    assert.equal(arabic.language, 'ar');
+    assert.match(arabic.summary, /50%/);
+    assert.match(arabic.recommendedAction, /[؀-ۿ]/);
+  });
+});
+
+describe('parseAnalysis', () => {
+  it('keeps only the known fields', () => {
+    assert.deepEqual(parseAnalysis({ ...VALID, extra: 'dropped' }), VALID);
+  });
+
+  it('rejects missing or mistyped fields', () => {
+    rejects400(() => parseAnalysis('not an object'));
+    rejects400(() => parseAnalysis({ ...VALID, summary: undefined }));
+    rejects400(() => parseAnalysis({ ...VALID, percentageIncrease: '20' }));
+  });
+
+  it('rejects unknown severities and languages', () => {
+    rejects400(() => parseAnalysis({ ...VALID, severity: 'critical' }));
+    rejects400(() => parseAnalysis({ ...VALID, language: 'fr' }));
+  });
+
+  it('rejects malformed evidence findings', () => {
+    rejects400(() => parseAnalysis({ ...VALID, evidence: { flags: 'expired' } }));
+    rejects400(() => parseAnalysis({ ...VALID, evidence: { flags: ['forged'] } }));
+    rejects400(() => parseAnalysis({ ...VALID, evidence: { flags: [], expiryDate: '01/02/2025' } }));
+  });
+
+  it('fills in findings the model left out', () => {
+    assert.deepEqual(parseAnalysis({ ...VALID, evidence: { flags: ['unreadable'] } }).evidence, {
+      detectedPrice: null, detectedProductName: null, expiryDate: null, flags: ['unreadable'],
+    });
+  });
+});
+
+describe('analyzeViolation', () => {
+  it('falls back to the stub rules when the provider fails', async t => {
+    const logged = t.mock.method(console, 'error', () => undefined);
+    const failing: AnalysisProvider = { name: 'failing', analyze: async () => { throw new Error('model unavailable'); } };
+    const analysis = await analyzeViolation(failing, input({ reportedPrice: 1500 }));
+    assert.deepEqual(analysis, await stubProvider.analyze(input({ reportedPrice: 1500 })));
+    assert.equal(logged.mock.callCount(), 1);
+  });
+
+  it('uses the provider when it answers', async () => {
+    const provider: AnalysisProvider = { name: 'fixed', analyze: async () => parseAnalysis(VALID) };
+    assert.deepEqual(await analyzeViolation(provider, input()), VALID);
+  });
+});
+
+describe('evidence check', () => {
+  const PHOTO = 'data:image/jpeg;base64,/9j/4AAQ';
+  const nothingRead: EvidenceExtraction = { price: null, productName: null, expiryDate: null, matchesProduct: null };
+  const read = (overrides: Partial<EvidenceExtraction>): EvidenceExtraction => ({ ...nothingRead, productName: 'Flour', ...overrides });
+
+  /** Stub text assessment plus a photo reading that returns `extraction`, like a vision model would. */
+  const fakeModel = (extraction: EvidenceExtraction | Error) => {
+    const calls: { mimeType: string, data: string }[] = [];
+    const provider: AnalysisProvider = {
+      name: 'fake',
+      analyze: stubProvider.analyze,
+      readEvidence: async image => {
+        calls.push(image);
+        if (extraction instanceof Error) throw extraction;
+        return extraction;
+      },
+    };
+    return { provider, calls };
+  };
+
+  const findings = async (extraction: EvidenceExtraction) =>
+    (await analyzeViolation(fakeModel(extraction).provider, input({ reportedPrice: 1500, evidenceImage: PHOTO }))).evidence;
+
+  it('passes the photo to the model without its data URL prefix', async () => {
+    const { provider, calls } = fakeModel(read({ price: 1500 }));
+    await analyzeViolation(provider, input({ evidenceImage: PHOTO }));
+    assert.deepEqual(calls, [{ mimeType: 'image/jpeg', data: '/9j/4AAQ' }]);
+  });
+
+  it('reports what was read and raises no flags when the photo agrees', async () => {
+    assert.deepEqual(await findings(read({ price: 1500, expiryDate: '2999-12-31', matchesProduct: true })), {
+      detectedPrice: 1500, detectedProductName: 'Flour', expiryDate: '2999-12-31', flags: [],
+    });
+  });
+
+  it('tolerates a 2% difference from the reported price', async () => {
+    assert.deepEqual((await findings(read({ price: 1530 })))?.flags, []);
+    assert.deepEqual((await findings(read({ price: 1470 })))?.flags, []);
+    assert.deepEqual((await findings(read({ price: 1531 })))?.flags, ['price_mismatch']);
+    assert.deepEqual((await findings(read({ price: 1200 })))?.flags, ['price_mismatch']);
+  });
+
+  it('ignores prices that are not positive', async () => {
+    const evidence = await findings(read({ price: 0 }));
+    assert.equal(evidence?.detectedPrice, null);
+    assert.deepEqual(evidence?.flags, []);
+  });
+
+  it('flags products past their expiry date', () => {
+    const today = '2025-06-15';
+    assert.deepEqual(compareEvidence(input(), read({ expiryDate: '2025-06-14' }), today).flags, ['expired']);
+    assert.deepEqual(compareEvidence(input(), read({ expiryDate: '2025-06-15' }), today).flags, []);
+    assert.deepEqual(compareEvidence(input(), read({ expiryDate: 'June 2025' }), today), {
+      detectedPrice: null, detectedProductName: 'Flour', expiryDate: null, flags: [],
+    });
+  });
+
+  it('flags a photo of a different product, but not one the model was unsure about', async () => {
+    assert.deepEqual((await findings(read({ matchesProduct: false })))?.flags, ['product_mismatch']);
+    assert.deepEqual((await findings(read({ matchesProduct: null })))?.flags, []);
+  });
+
+  it('flags photos with nothing legible', async () => {
+    assert.deepEqual((await findings(nothingRead))?.flags, ['unreadable']);
+    assert.deepEqual((await findings({ ...nothingRead, expiryDate: 'smudged', matchesProduct: false }))?.flags, ['unreadable', 'product_mismatch']);
+  });
+
+  it('leaves the findings out when the photo cannot be read by the model', async t => {
+    t.mock.method(console, 'error', () => undefined);
+    const analysis = await analyzeViolation(fakeModel(new Error('vision unavailable')).provider, input({ reportedPrice: 1500, evidenceImage: PHOTO }));
+    assert.equal(analysis.evidence, undefined);
+    assert.equal(analysis.severity, 'high');
+  });
+
+  it('does not ask the model without an image', async () => {
+    for (const evidenceImage of [undefined, 'data:text/plain;base64,aGk=']) {
+      const { provider, calls } = fakeModel(read({ price: 1 }));
+      assert.equal((await analyzeViolation(provider, input({ evidenceImage }))).evidence, undefined);
+      assert.equal(calls.length, 0);
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { Router } from 'express';
+import type { EvidenceFindings, EvidenceFlag, Language, ViolationAnalysis, ViolationSeverity } from '../types';
+import { HttpError } from './errors';
+import { rateLimit } from './rateLimit';
+import { validate } from './validation';
+
+export interface AnalysisInput {
+  productName: string;
+  officialPrice: number;
+  reportedPrice: number;
+  description: string;
+  language: Language;
+  /** Evidence photo as a data URL. */
+  evidenceImage?: string;
+}
+
+export interface EvidenceImage {
+  mimeType: string;
+  /** Base64 without the data URL prefix. */
+  data: string;
+}
+
+/** Raw reading of an evidence photo; `null` wherever the model could not tell. */
+export interface EvidenceExtraction {
+  price: number | null;
+  productName: string | null;
+  expiryDate: string | null;
+  /** Whether the pictured product is the one being reported (names may be in another language). */
+  matchesProduct: boolean | null;
+}
+
+export interface AnalysisProvider {
+  name: string;
+  analyze(input: AnalysisInput): Promise<ViolationAnalysis>;
+  /** Optional: providers without vision support leave reports without evidence findings. */
+  readEvidence?(image: EvidenceImage, input: AnalysisInput): Promise<EvidenceExtraction>;
+}
+
+const SEVERITIES: ViolationSeverity[] = ['low', 'medium', 'high'];
+
+export const percentageIncrease = ({ officialPrice, reportedPrice }: Pick<AnalysisInput, 'officialPrice' | 'reportedPrice'>) =>
+  officialPrice > 0 && reportedPrice > officialPrice ? Math.round(((reportedPrice - officialPrice) / officialPrice) * 1000) / 10 : 0;
+
+const EVIDENCE_FLAGS: EvidenceFlag[] = ['price_mismatch', 'product_mismatch', 'expired', 'unreadable'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+/** Shelf labels and receipts round; differences within this share of the price are not flagged. */
+const PRICE_TOLERANCE = 0.02;
+
+const parseEvidence = (value: unknown): EvidenceFindings => {
+  const evidence = validate<EvidenceFindings>(value, {
+    detectedPrice: 'number?', detectedProductName: 'string?', expiryDate: 'string?', flags: 'object',
+  });
+  if (!Array.isArray(evidence.flags) || !evidence.flags.every(f => EVIDENCE_FLAGS.includes(f))) {
+    throw new HttpError(400, `"flags" must be a list of: ${EVIDENCE_FLAGS.join(', ')}`);
+  }
+  if (evidence.expiryDate && !DATE_RE.test(evidence.expiryDate)) throw new HttpError(400, '"expiryDate" must be a YYYY-MM-DD date');
+  const { detectedPrice = null, detectedProductName = null, expiryDate = null, flags } = evidence;
+  return { detectedPrice, detectedProductName, expiryDate, flags };
+};
+
+/** Checks an analysis (from a model or a client) against the `ViolationAnalysis` shape; throws a 400 otherwise. */
+export const parseAnalysis = (value: unknown): ViolationAnalysis => {
+  const analysis = validate<ViolationAnalysis>(value, {
+    percentageIncrease: 'number', severity: 'string', recommendedAction: 'string', summary: 'string', language: 'string', provider: 'string', evidence: 'object?',
+  });
+  if (!SEVERITIES.includes(analysis.severity)) throw new HttpError(400, `"severity" must be one of: ${SEVERITIES.join(', ')}`);
+  if (analysis.language !== 'ar' && analysis.language !== 'en') throw new HttpError(400, '"language" must be ar or en');
+  const { percentageIncrease, severity, recommendedAction, summary, language, provider } = analysis;
+  return {
+    percentageIncrease, severity, recommendedAction, summary, language, provider,
+    ...(analysis.evidence ? { evidence: parseEvidence(analysis.evidence) } : {}),
+  };
+};
+
+export const parseDataUrl = (dataUrl: string): EvidenceImage | null => {
+  const match = /^data:(image\/[\w.+-]+);base64,(.+)$/s.exec(dataUrl);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+/**
+ * Turns what the model read off the photo into reviewer-facing flags. Deliberately plain
+ * arithmetic so that the comparison does not depend on which provider did the reading.
+ */
+export const compareEvidence = (input: AnalysisInput, extraction: EvidenceExtraction, today = new Date().toISOString().slice(0, 10)): EvidenceFindings => {
+  const price = extraction.price !== null && extraction.price > 0 ? extraction.price : null;
+  const expiryDate = extraction.expiryDate && DATE_RE.test(extraction.expiryDate) ? extraction.expiryDate : null;
+  const flags: EvidenceFlag[] = [];
+  if (price === null && !extraction.productName && !expiryDate) flags.push('unreadable');
+  if (price !== null && Math.abs(price - input.reportedPrice) > input.reportedPrice * PRICE_TOLERANCE) flags.push('price_mismatch');
+  if (extraction.matchesProduct === false) flags.push('product_mismatch');
+  if (expiryDate && expiryDate < today) flags.push('expired');
+  return { detectedPrice: price, detectedProductName: extraction.productName || null, expiryDate, flags };
+};
+
+const STUB_TEXT: Record<Language, Record<ViolationSeverity, { action: string, summary: (pct: number) => string }>> = {
+  ar: {
+    low: { action: 'تسجيل البلاغ ومتابعته في الجولة الرقابية القادمة.', summary: pct => pct ? `زيادة طفيفة بنسبة ${pct}% عن السعر الرسمي.` : 'السعر المبلغ عنه ضمن السعر الرسمي.' },
+    medium: { action: 'التواصل مع المحل وتوجيه إنذار بالالتزام بالتسعيرة.', summary: pct => `زيادة ملحوظة بنسبة ${pct}% عن السعر الرسمي.` },
+    high: { action: 'إرسال فريق ميداني فوراً وتحرير محضر مخالفة.', summary: pct => `زيادة كبيرة بنسبة ${pct}% عن السعر الرسمي.` },
+  },
+  en: {
+    low: { action: 'Log the report and check during the next inspection round.', summary: pct => pct ? `Slight overcharge of ${pct}% above the official price.` : 'The reported price is within the official price.' },
+    medium: { action: 'Contact the shop and issue a compliance warning.', summary: pct => `Notable overcharge of ${pct}% above the official price.` },
+    high: { action: 'Dispatch a field team immediately and file a violation record.', summary: pct => `Severe overcharge of ${pct}% above the official price.` },
+  },
+};
+
+/** Deterministic rules with no network access, for offline development and tests. */
+export const stubProvider: AnalysisProvider = {
+  name: 'stub',
+  analyze: async input => {
+    const pct = percentageIncrease(input);
+    const severity: ViolationSeverity = pct >= 50 ? 'high' : pct >= 15 ? 'medium' : 'low';
+    const text = STUB_TEXT[input.language][severity];
+    return { percentageIncrease: pct, severity, recommendedAction: text.action, summary: text.summary(pct), language: input.language, provider: 'stub' };
+  },
+};
+
+export const geminiProvider = (apiKey: string, model = 'gemini-2.5-flash'): AnalysisProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    readEvidence: async (image, input) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: image },
+            {
+              text: `
+                This photo is evidence for a price violation report about "${input.productName}" in Taiz, Yemen.
+                It shows a shop shelf label, a price tag or a receipt. Read from it:
+                - the price of that product in Yemeni Rials (digits may be Arabic-Indic),
+                - the product name as printed,
+                - the expiry date if one is visible, as YYYY-MM-DD,
+                - whether the pictured product is "${input.productName}" (names may be in Arabic or English).
+                Use null for anything that is not legible. Do not guess.
+              `,
+            },
+          ],
+        }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              price: { type: Type.NUMBER, nullable: true },
+              productName: { type: Type.STRING, nullable: true },
+              expiryDate: { type: Type.STRING, nullable: true },
+              matchesProduct: { type: Type.BOOLEAN, nullable: true },
+            },
+            required: ['price', 'productName', 'expiryDate', 'matchesProduct'],
+          },
+        },
+      });
+      const extraction = validate<EvidenceExtraction>(JSON.parse(response.text ?? ''), {
+        price: 'number?', productName: 'string?', expiryDate: 'string?', matchesProduct: 'boolean?',
+      });
+      return {
+        price: extraction.price ?? null,
+        productName: extraction.productName ?? null,
+        expiryDate: extraction.expiryDate ?? null,
+        matchesProduct: extraction.matchesProduct ?? null,
+      };
+    },
+    analyze: async input => {
+      const pct = percentageIncrease(input);
+      const response = await ai.models.generateContent({
+        model,
+        contents: `
+          You are an AI assistant for the Consumer Protection Association in Taiz, Yemen.
+          Analyze the following violation report:
+
+          Product: ${input.productName}
+          Official Price: ${input.officialPrice} YR
+          Reported Price: ${input.reportedPrice} YR (${pct}% above the official price)
+          User Description: ${input.description}
+
+          Classify the severity, recommend an immediate action for the admin and give a brief
+          assessment (max 50 words). Write the text fields in ${input.language === 'ar' ? 'Arabic' : 'English'}.
+        `,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              severity: { type: Type.STRING, enum: SEVERITIES },
+              recommendedAction: { type: Type.STRING },
+              summary: { type: Type.STRING },
+            },
+            required: ['severity', 'recommendedAction', 'summary'],
+          },
+        },
+      });
+      // The percentage is arithmetic, so it is computed here rather than trusted to the model.
+      return parseAnalysis({ ...JSON.parse(response.text ?? ''), percentageIncrease: pct, language: input.language, provider: 'gemini' });
+    },
+  };
+};
+
+/**
+ * Runs the text assessment and, when a photo is attached and the provider can read images, the
+ * evidence check. A failing model falls back to the stub rules so the citizen's report is never
+ * blocked; a failing photo read just leaves the findings out.
+ */
+export const analyzeViolation = async (provider: AnalysisProvider, input: AnalysisInput): Promise<ViolationAnalysis> => {
+  const image = input.evidenceImage ? parseDataUrl(input.evidenceImage) : null;
+  const [analysis, extraction] = await Promise.all([
+    provider.analyze(input).catch(error => {
+      console.error(`Analysis provider "${provider.name}" failed:`, error);
+      return stubProvider.analyze(input);
+    }),
+    image && provider.readEvidence
+      ? provider.readEvidence(image, input).catch(error => {
+        console.error(`Evidence reading with "${provider.name}" failed:`, error);
+        return null;
+      })
+      : null,
+  ]);
+  return extraction ? { ...analysis, evidence: compareEvidence(input, extraction) } : analysis;
+};
+
+/** Gemini when an API key is configured, otherwise (or with `AI_PROVIDER=stub`) the local stub. */
+export const createAnalysisProvider = (env = process.env): AnalysisProvider => {
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+  if (env.AI_PROVIDER === 'stub' || !apiKey) return stubProvider;
+  return geminiProvider(apiKey, env.GEMINI_MODEL);
+};
+
+export const analysisRouter = (provider: AnalysisProvider) => {
+  const router = Router();
+
+  router.post('/violation', rateLimit({ windowMs: 60_000, max: Number(process.env.AI_RATE_LIMIT) || 10 }), async (req, res) => {
+    const input = validate<AnalysisInput>(req.body, {
+      productName: 'string', officialPrice: 'number', reportedPrice: 'number', description: 'string', language: 'string?', evidenceImage: 'string?',
+    });
+    const language: Language = input.language === 'en' ? 'en' : 'ar';
+    res.json(await analyzeViolation(provider, { ...input, description: input.description.slice(0, 2000), language }));
+  });
+
+  return router;
+};
@@ -0,0 +1,66 @@
+import express from 'express';
+import type { Permission } from '../permissions';
+import { analysisRouter, createAnalysisProvider, type AnalysisProvider } from './analysis';
+import { authRouter, requirePermission } from './auth';
+import { careersRouter } from './careers';
+import { crmRouter } from './crm';
+import { errorHandler, HttpError } from './errors';
+import { currentRates, exchangeRatesRouter } from './exchangeRates';
+import { mediaRouter } from './media';
+import { newsRouter } from './news';
+import { createNotificationProvider, type NotificationProvider } from './notifications';
+import { productsRouter } from './products';
+import { projectsRouter } from './projects';
+import { publicationsRouter } from './publications';
+import { createRateImporter, type RateImporter } from './rateSources';
+import { reportsRouter } from './reports';
+import { settingRouter } from './routes';
+import { shopsRouter } from './shops';
+import { surveysRouter } from './surveys';
+import { tilesRouter } from './tiles';
+import { transparencyRouter } from './transparency';
+import type { Store } from './store';
+import { UPLOAD_DIR, UPLOAD_URL } from './uploads';
+import { usersRouter } from './users';
+import { schemas } from './validation';
+
+export const createApp = (
+  store: Store,
+  analysis: AnalysisProvider = createAnalysisProvider(),
+  notifications: NotificationProvider = createNotificationProvider(),
+  rateImporter: RateImporter | null = createRateImporter(() => currentRates(store)),
+) => {
+  const app = express();
+  // nginx on the same host forwards the client address; needed for per-client rate limits.
+  app.set('trust proxy', 'loopback');
+  // Images and documents are sent inline as base64; evidence photos arrive downscaled by the app.
+  app.use(express.json({ limit: '15mb' }));
+
+  const allow = (permission: Permission) => requirePermission(store, permission);
+
+  app.use('/api/auth', authRouter(store));
+  app.use('/api/users', usersRouter(store));
+  app.use('/api/products', productsRouter(store));
+  app.use('/api/reports', reportsRouter(store, notifications, analysis));
+  app.use('/api/shops', shopsRouter(store));
+  app.use('/api/jobs', careersRouter(store));
+  app.use('/api/news', newsRouter(store));
+  app.use('/api/media', mediaRouter(store));
+  app.use('/api/publications', publicationsRouter(store));
+  app.use('/api/profile', settingRouter(store.db, 'profile', schemas.profile, { update: allow('settings:manage') }));
+  app.use('/api/crm', crmRouter(store));
+  app.use('/api/surveys', surveysRouter(store));
+  app.use('/api/projects', projectsRouter(store));
+  app.use('/api/transparency', transparencyRouter(store));
+  app.use('/api/rates', exchangeRatesRouter(store, rateImporter));
+  app.use('/api/tiles', tilesRouter());
+  app.use('/api/analysis', analysisRouter(analysis));
+
+  // Uploaded files get random names, so a copy can be cached for good.
+  app.use(UPLOAD_URL, express.static(UPLOAD_DIR, { immutable: true, maxAge: '1y', index: false }));
+
+  app.use('/api', (_req, _res, next) => next(new HttpError(404, 'Not found')));
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { startApi } from './testing';
+
+describe('sign-in limits', () => {
+  const signIn = async (api: Awaited<ReturnType<typeof startApi>>, password: string) =>
+    (await api.request('/auth/login', 'POST', { username: 'tester', password })).status;
+
+  it('locks an account out from an address after 10 failed attempts', async () => {
+    const api = await startApi(() => ({}));
+    try {
+      for (let i = 0; i < 10; i++) assert.equal(await signIn(api, 'wrong'), 401);
+      assert.equal(await signIn(api, 'secret'), 429);
+    } finally {
+      api.close();
+    }
+  });
+
+  it('does not count successful sign-ins, and clears the failed ones', async () => {
+    const api = await startApi(() => ({}));
+    try {
+      const statuses = [];
+      for (let i = 0; i < 9; i++) statuses.push(await signIn(api, 'wrong'));
+      statuses.push(await signIn(api, 'secret'));
+      for (let i = 0; i < 9; i++) statuses.push(await signIn(api, 'wrong'));
+      assert.deepEqual(statuses, [...Array(9).fill(401), 200, ...Array(9).fill(401)]);
+    } finally {
+      api.close();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { Router, type Request, type RequestHandler, type Response } from 'express';
+import { can, type Permission } from '../permissions';
+import type { User } from '../types';
+import type { DB } from './db';
+import { HttpError } from './errors';
+import { rateLimit } from './rateLimit';
+import type { Store, StoredUser } from './store';
+import { validate } from './validation';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'cpa_session';
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 8) * 60 * 60 * 1000;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// --- Passwords ---
+
+/** Hashes a password as `scrypt$<salt>$<key>` (both base64). */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string | undefined) => {
+  const [scheme, salt, key] = (stored ?? '').split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+export const toPublicUser = ({ passwordHash: _hash, ...user }: StoredUser): User => user;
+
+// --- Sessions ---
+
+// Only a hash of the token is stored, so a leaked database cannot be replayed as sessions.
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const createSession = (db: DB, userId: string) => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  db.prepare('INSERT INTO sessions (tokenHash, userId, expiresAt, createdAt) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), userId, expiresAt.toISOString(), new Date().toISOString());
+  return { token, expiresAt };
+};
+
+const findSession = (db: DB, token: string) => {
+  const row = db.prepare('SELECT userId, expiresAt FROM sessions WHERE tokenHash = ?').get(hashToken(token)) as
+    { userId: string; expiresAt: string } | undefined;
+  if (!row) return undefined;
+  if (new Date(row.expiresAt).getTime() <= Date.now()) {
+    revokeSession(db, token);
+    return undefined;
+  }
+  return row;
+};
+
+const revokeSession = (db: DB, token: string) => {
+  db.prepare('DELETE FROM sessions WHERE tokenHash = ?').run(hashToken(token));
+};
+
+/** Drops every session of a user, e.g. after a password change or account deletion. */
+export const revokeUserSessions = (db: DB, userId: string) => {
+  db.prepare('DELETE FROM sessions WHERE userId = ?').run(userId);
+};
+
+export const purgeExpiredSessions = (db: DB) => {
+  db.prepare('DELETE FROM sessions WHERE expiresAt <= ?').run(new Date().toISOString());
+};
+
+const readSessionToken = (req: Request) => {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+// --- Middleware ---
+
+/** Resolves the session cookie to a user and exposes it as `res.locals.user`, or responds 401. */
+export const requireAuth = (store: Store): RequestHandler => (req, res, next) => {
+  const token = readSessionToken(req);
+  const session = token ? findSession(store.db, token) : undefined;
+  const user = session ? store.users.get(session.userId) : undefined;
+  if (!user) throw new HttpError(401, 'Authentication required');
+  res.locals.user = toPublicUser(user);
+  next();
+};
+
+export const currentUser = (res: Response) => res.locals.user as User;
+
+/** Like `requireAuth`, but also responds 403 unless the user's role grants `permission`. */
+export const requirePermission = (store: Store, permission: Permission): RequestHandler => {
+  const authenticate = requireAuth(store);
+  return (req, res, next) => authenticate(req, res, () => {
+    if (!can(currentUser(res), permission)) throw new HttpError(403, 'You do not have permission to perform this action');
+    next();
+  });
+};
+
+// --- Routes ---
+
+export const authRouter = (store: Store) => {
+  const router = Router();
+  const cookieOptions = { httpOnly: true, sameSite: 'strict' as const, secure: process.env.NODE_ENV === 'production', path: '/api' };
+  // Unknown usernames are checked against this hash so that they take as long as wrong passwords.
+  const dummyHash = hashPassword(randomBytes(16).toString('base64'));
+  // Password guessing is slowed from one address, and more so against one account from that address.
+  // The account limit only counts failed sign-ins and is per address, so nobody can lock another user out.
+  const loginLimits = [
+    rateLimit({ windowMs: LOGIN_WINDOW_MS, max: 20 }),
+    rateLimit({
+      windowMs: LOGIN_WINDOW_MS, max: 10, failuresOnly: true,
+      key: req => `user:${req.ip ?? 'unknown'}:${String(req.body?.username ?? '').trim().toLowerCase()}`,
+    }),
+  ];
+
+  router.post('/login', ...loginLimits, async (req, res) => {
+    const { username, password } = validate<{ username: string; password: string }>(req.body, { username: 'string', password: 'string' });
+    const user = store.users.list().find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+    const valid = await verifyPassword(password, user ? user.passwordHash : await dummyHash);
+    if (!user || !valid) throw new HttpError(401, 'Invalid username or password');
+    purgeExpiredSessions(store.db);
+    const { token, expiresAt } = createSession(store.db, user.id);
+    res.cookie(SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt });
+    res.json(toPublicUser(user));
+  });
+
+  router.post('/logout', (req, res) => {
+    const token = readSessionToken(req);
+    if (token) revokeSession(store.db, token);
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+    res.status(204).end();
+  });
+
+  router.get('/session', requireAuth(store), (_req, res) => {
+    res.json(currentUser(res));
+  });
+
+  return router;
+};
@@ -0,0 +1,156 @@
+import fs from 'node:fs';
+import { Router, type Request } from 'express';
+import { APPLICATION_STAGES, JOB_TYPES } from '../constants';
+import type { ApplicationStage, JobApplication, JobOpportunity } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import { rateLimit } from './rateLimit';
+import type { StoredApplication, Store } from './store';
+import { privateUploadPath, removePrivateUpload, saveUpload, type FileExtension } from './uploads';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+const CV_TYPES: FileExtension[] = ['pdf', 'doc', 'docx'];
+const MAX_CV_BYTES = 5 * 1024 * 1024;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** A posting stays open through its deadline day. */
+const isExpired = (job: Pick<JobOpportunity, 'deadline'>, now = today()) => !!job.deadline && job.deadline < now;
+
+/** Closes open postings whose deadline has passed; run before every read so no scheduler is needed. */
+export const closeExpiredJobs = (store: Store) => {
+  const now = today();
+  for (const job of store.jobs.list()) {
+    if (job.status === 'open' && isExpired(job, now)) store.jobs.update(job.id, { status: 'closed' });
+  }
+};
+
+/** Postings stored before applications existed used "Open" as a deadline and had no status. */
+export const migrateLegacyJobs = (store: Store) => {
+  for (const job of store.jobs.list()) {
+    if (job.status) continue;
+    const deadline = job.deadline && DATE_RE.test(job.deadline) ? job.deadline : null;
+    store.jobs.update(job.id, { deadline, status: isExpired({ deadline }) ? 'closed' : 'open' });
+  }
+};
+
+const toPublicApplication = ({ cvPath: _path, ...application }: StoredApplication): JobApplication => application;
+
+export const careersRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'hr:manage');
+
+  const findJob = (id: string) => {
+    const job = store.jobs.get(id);
+    if (!job) throw new HttpError(404, 'Not found');
+    return job;
+  };
+
+  const findApplication = (id: string) => {
+    const application = store.applications.get(id);
+    if (!application) throw new HttpError(404, 'Not found');
+    return application;
+  };
+
+  const parseJob = (body: unknown, existing?: JobOpportunity): Omit<JobOpportunity, 'id'> => {
+    const patch = validate<Partial<JobOpportunity>>(body, schemas.job, !!existing);
+    const { id: _id, ...job } = { postedDate: today(), status: 'open', ...existing, ...patch } as JobOpportunity;
+    if (!JOB_TYPES.includes(job.type)) throw new HttpError(400, `"type" must be one of ${JOB_TYPES.join(', ')}`);
+    if (job.status !== 'open' && job.status !== 'closed') throw new HttpError(400, '"status" must be open or closed');
+    if (job.deadline && !DATE_RE.test(job.deadline)) throw new HttpError(400, '"deadline" must be a YYYY-MM-DD date');
+    if (!DATE_RE.test(job.postedDate)) throw new HttpError(400, '"postedDate" must be a YYYY-MM-DD date');
+    if (patch.status === 'open' && isExpired(job)) throw new HttpError(400, 'The deadline has passed; move it to reopen the posting');
+    return { ...job, deadline: job.deadline || null, status: isExpired(job) ? 'closed' : job.status };
+  };
+
+  router.get('/', (_req, res) => {
+    closeExpiredJobs(store);
+    res.json(store.jobs.list().filter(job => job.status === 'open'));
+  });
+
+  router.get('/manage', canManage, (_req, res) => {
+    closeExpiredJobs(store);
+    res.json(store.jobs.list());
+  });
+
+  router.get('/applications', canManage, (req, res) => {
+    const jobId = Number(req.query.jobId);
+    res.json(store.applications.list().filter(a => !jobId || a.jobId === jobId).map(toPublicApplication));
+  });
+
+  router.get('/applications/:id/cv', canManage, (req: IdRequest, res) => {
+    const application = findApplication(req.params.id);
+    const file = privateUploadPath(application.cvPath);
+    if (!fs.existsSync(file)) throw new HttpError(404, 'The CV file is missing');
+    res.download(file, application.cv.fileName);
+  });
+
+  router.put('/applications/:id', canManage, (req: IdRequest, res) => {
+    const application = findApplication(req.params.id);
+    const patch = validate<{ stage?: ApplicationStage, notes?: string }>(req.body, { stage: 'string?', notes: 'string?' });
+    if (patch.stage && !APPLICATION_STAGES.includes(patch.stage)) throw new HttpError(400, `"stage" must be one of ${APPLICATION_STAGES.join(', ')}`);
+    const moved = patch.stage && patch.stage !== application.stage;
+    const updated = store.applications.update(application.id, {
+      ...(moved ? { stage: patch.stage, history: [...application.history, { stage: patch.stage!, actorName: currentUser(res).name, timestamp: new Date().toISOString() }] } : {}),
+      ...(patch.notes !== undefined ? { notes: patch.notes } : {}),
+    })!;
+    res.json(toPublicApplication(updated));
+  });
+
+  router.delete('/applications/:id', canManage, async (req: IdRequest, res) => {
+    const application = findApplication(req.params.id);
+    store.applications.remove(application.id);
+    await removePrivateUpload(application.cvPath);
+    res.status(204).end();
+  });
+
+  router.get('/:id', (req: IdRequest, res) => {
+    closeExpiredJobs(store);
+    res.json(findJob(req.params.id));
+  });
+
+  router.post('/', canManage, (req, res) => {
+    res.status(201).json(store.jobs.create(parseJob(req.body)));
+  });
+
+  router.put('/:id', canManage, (req: IdRequest, res) => {
+    const existing = findJob(req.params.id);
+    res.json(store.jobs.update(existing.id, parseJob(req.body, existing)));
+  });
+
+  // Applications are HR records in their own right, so a posting that has any can only be closed.
+  router.delete('/:id', canManage, (req: IdRequest, res) => {
+    const job = findJob(req.params.id);
+    const applications = store.applications.list().filter(a => a.jobId === job.id).length;
+    if (applications) throw new HttpError(409, `This posting has ${applications} application(s); close it instead`);
+    store.jobs.remove(job.id);
+    res.status(204).end();
+  });
+
+  router.post('/:id/applications', rateLimit({ windowMs: 10 * 60_000, max: 5 }), async (req: IdRequest, res) => {
+    closeExpiredJobs(store);
+    const job = findJob(req.params.id);
+    if (job.status !== 'open') throw new HttpError(409, 'This posting is closed');
+    const body = validate<{ name: string, email: string, phone?: string, coverLetter?: string, cv: { fileName: string, content: string } }>(req.body, schemas.application);
+    const name = body.name.trim();
+    const email = body.email.trim();
+    if (!name) throw new HttpError(400, '"name" is required');
+    if (!EMAIL_RE.test(email)) throw new HttpError(400, 'Invalid email address');
+    const cv = validate<{ fileName: string, content: string }>(body.cv, { fileName: 'string', content: 'string' });
+
+    const { url: cvPath, ...file } = await saveUpload({ folder: 'cvs', types: CV_TYPES, maxBytes: MAX_CV_BYTES, private: true }, cv);
+    const submittedAt = new Date().toISOString();
+    const application = store.applications.create({
+      jobId: job.id, name, email, phone: body.phone?.trim() || undefined, coverLetter: body.coverLetter?.trim() || undefined,
+      cv: file, cvPath, stage: 'received', submittedAt, history: [{ stage: 'received', actorName: name, timestamp: submittedAt }],
+    });
+    // The applicant only needs to know it arrived; the record itself is for HR.
+    res.status(201).json({ id: application.id, submittedAt });
+  });
+
+  return router;
+};
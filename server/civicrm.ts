@@ -0,0 +1,147 @@
+import type { CiviCRMStats } from '../types';
+
+/** Connection settings as stored; the API key never leaves the server. */
+export interface CiviCRMConfig {
+  /** APIv4 REST root, e.g. https://crm.example.org/civicrm/ajax/api4 */
+  baseUrl: string;
+  apiKey: string;
+  /** Only contributions in this currency are counted. */
+  currency: string;
+}
+
+/** A failed call: unreachable server, rejected credentials or an APIv4 error message. */
+export class CiviCRMError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'CiviCRMError';
+  }
+}
+
+type Where = [field: string, operator: string, value?: unknown][];
+
+export interface Api4Params {
+  select?: string[];
+  where?: Where;
+  orderBy?: Record<string, 'ASC' | 'DESC'>;
+  limit?: number;
+  offset?: number;
+}
+
+export interface Contact {
+  id: number;
+  display_name: string;
+  contact_type: string;
+}
+
+export interface Contribution {
+  id: number;
+  contact_id: number;
+  total_amount: number;
+  currency: string;
+  receive_date: string;
+  campaign_id: number | null;
+}
+
+export interface Campaign {
+  id: number;
+  title: string;
+  is_active: boolean;
+  goal_revenue: number | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+const PAGE_SIZE = 500;
+const TIMEOUT_MS = 15_000;
+
+/**
+ * Minimal CiviCRM APIv4 REST client. Authenticates with an API key through AuthX
+ * (`X-Civi-Auth: Bearer ...`), which must be enabled for API keys on the CiviCRM side.
+ */
+export const createCiviClient = ({ baseUrl, apiKey }: Pick<CiviCRMConfig, 'baseUrl' | 'apiKey'>, fetchImpl: typeof fetch = fetch) => {
+  const call = async <T>(entity: string, action: string, params: Api4Params): Promise<T[]> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/${entity}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Civi-Auth': `Bearer ${apiKey}`,
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+        body: new URLSearchParams({ params: JSON.stringify(params) }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new CiviCRMError(`Could not reach CiviCRM at ${baseUrl}: ${error instanceof Error ? error.message : error}`);
+    }
+    const body = await response.json().catch(() => null) as { values?: T[], error_message?: string } | null;
+    if (!response.ok || !body || !Array.isArray(body.values)) {
+      const reason = body?.error_message
+        ?? (response.status === 401 || response.status === 403 ? 'the API key was rejected' : `unexpected response (HTTP ${response.status})`);
+      throw new CiviCRMError(`CiviCRM ${entity}.${action} failed: ${reason}`, response.status);
+    }
+    return body.values;
+  };
+
+  /** Follows limit/offset pages until a short page comes back. */
+  const getAll = async <T>(entity: string, params: Api4Params) => {
+    const all: T[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await call<T>(entity, 'get', { ...params, limit: PAGE_SIZE, offset });
+      all.push(...page);
+      if (page.length < PAGE_SIZE) return all;
+    }
+  };
+
+  return {
+    get: <T>(entity: string, params: Api4Params = {}) => call<T>(entity, 'get', params),
+    contacts: (params: Api4Params = {}) => getAll<Contact>('Contact', { select: ['id', 'display_name', 'contact_type'], ...params }),
+    contributions: (params: Api4Params = {}) =>
+      getAll<Contribution>('Contribution', { select: ['id', 'contact_id', 'total_amount', 'currency', 'receive_date', 'campaign_id'], ...params }),
+    campaigns: (params: Api4Params = {}) =>
+      getAll<Campaign>('Campaign', { select: ['id', 'title', 'is_active', 'goal_revenue', 'start_date', 'end_date'], ...params }),
+  };
+};
+
+export type CiviClient = ReturnType<typeof createCiviClient>;
+
+const TREND_MONTHS = 6;
+
+/**
+ * Headline figures from completed contributions: distinct donors, their total, active campaigns
+ * (our "projects") and totals for each of the last six calendar months, empty months included.
+ */
+export const computeCiviStats = async (client: CiviClient, currency: string, now = new Date()): Promise<CiviCRMStats> => {
+  const [contributions, campaigns] = await Promise.all([
+    client.contributions({ where: [['contribution_status_id:name', '=', 'Completed'], ['currency', '=', currency]] }),
+    client.campaigns({ where: [['is_active', '=', true]] }),
+  ]);
+
+  const months = Array.from({ length: TREND_MONTHS }, (_, i) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (TREND_MONTHS - 1 - i), 1));
+    return { key: date.toISOString().slice(0, 7), month: date.toLocaleString('en', { month: 'short', timeZone: 'UTC' }), amount: 0 };
+  });
+  for (const c of contributions) {
+    // CiviCRM returns "YYYY-MM-DD HH:MM:SS"; the month prefix is all that matters here.
+    const month = months.find(m => m.key === String(c.receive_date).slice(0, 7));
+    if (month) month.amount += Number(c.total_amount);
+  }
+
+  return {
+    totalDonors: new Set(contributions.map(c => c.contact_id)).size,
+    activeProjects: campaigns.length,
+    campaignGoal: Math.round(campaigns.reduce((sum, c) => sum + Number(c.goal_revenue ?? 0), 0)),
+    totalDonations: Math.round(contributions.reduce((sum, c) => sum + Number(c.total_amount), 0)),
+    currency,
+    lastSync: now.toISOString(),
+    trends: months.map(({ month, amount }) => ({ month, amount: Math.round(amount) })),
+  };
+};
+
+/** Cheapest authenticated call: proves the URL, the key and the contact permission in one go. */
+export const pingCivi = async (client: CiviClient) => {
+  const started = Date.now();
+  await client.get<Contact>('Contact', { select: ['id'], limit: 1 });
+  return Date.now() - started;
+};
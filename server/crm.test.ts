@@ -0,0 +1,207 @@
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { CiviCRMHealth, CiviCRMStats } from '../types';
+import { computeCiviStats, createCiviClient, type CiviCRMConfig } from './civicrm';
+import { crmRouter } from './crm';
+import { createMockCiviCRM } from './mockCivicrm';
+import { setSetting } from './repository';
+import { listen, startApi } from './testing';
+
+type Row = Record<string, unknown>;
+
+// Requests to CIVI_URL go to the mock; DOWN_URL behaves like an unreachable host and BROKEN_URL
+// like a proxy answering with an HTML error page.
+const CIVI_URL = 'https://crm.example.org/civicrm/ajax/api4';
+const DOWN_URL = 'https://down.example.org/civicrm/ajax/api4';
+const BROKEN_URL = 'https://broken.example.org/civicrm/ajax/api4';
+const API_KEY = 'test-key';
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+const fixtures: Record<string, Row[]> = { Contact: [], Contribution: [], Campaign: [] };
+/** Entity and APIv4 params of every request that reached the mock. */
+let requests: { entity: string, params: { limit?: number, offset?: number } }[] = [];
+let mockUrl = '';
+
+const fetchImpl: typeof fetch = async (input, init) => {
+  const url = String(input);
+  if (url.startsWith(DOWN_URL)) throw new TypeError('fetch failed');
+  if (url.startsWith(BROKEN_URL)) return new Response('<html>Bad gateway</html>', { status: 500, headers: { 'Content-Type': 'text/html' } });
+  const path = url.slice(CIVI_URL.length);
+  requests.push({ entity: path.split('/')[1], params: JSON.parse(new URLSearchParams(init?.body as URLSearchParams).get('params') ?? '{}') });
+  return fetch(`${mockUrl}${path}`, init);
+};
+
+let nextId = 0;
+const contribution = (receiveDate: string, amount: number, overrides: Row = {}): Row => ({
+  id: ++nextId, contact_id: nextId, total_amount: amount, currency: 'YER', receive_date: receiveDate, campaign_id: null,
+  'contribution_status_id:name': 'Completed', ...overrides,
+});
+const campaign = (isActive: boolean, goal: number | null): Row => ({
+  id: ++nextId, title: `Campaign ${nextId}`, is_active: isActive, goal_revenue: goal, start_date: null, end_date: null,
+});
+
+let mock: Server;
+
+before(async () => {
+  ({ server: mock, url: mockUrl } = await listen(createMockCiviCRM({ apiKey: API_KEY, fixtures })));
+  mockUrl += '/civicrm/ajax/api4';
+});
+
+after(() => {
+  mock.close();
+});
+
+beforeEach(() => {
+  fixtures.Contact = [];
+  fixtures.Contribution = [];
+  fixtures.Campaign = [];
+  requests = [];
+});
+
+describe('computeCiviStats', () => {
+  const client = createCiviClient({ baseUrl: CIVI_URL, apiKey: API_KEY }, fetchImpl);
+
+  it('totals the last six calendar months, empty months included', async () => {
+    fixtures.Contribution = [
+      contribution('2026-06-01 09:00:00', 1000),
+      contribution('2026-06-14 18:30:00', 500),
+      contribution('2026-03-10 10:00:00', 250.4),
+      contribution('2026-01-01 00:00:00', 100),
+      contribution('2025-12-31 23:59:59', 9999),
+    ];
+    const stats = await computeCiviStats(client, 'YER', NOW);
+    assert.deepEqual(stats.trends, [
+      { month: 'Jan', amount: 100 }, { month: 'Feb', amount: 0 }, { month: 'Mar', amount: 250 },
+      { month: 'Apr', amount: 0 }, { month: 'May', amount: 0 }, { month: 'Jun', amount: 1500 },
+    ]);
+    // The headline total is not limited to the trend months.
+    assert.equal(stats.totalDonations, 11849);
+    assert.equal(stats.lastSync, NOW.toISOString());
+  });
+
+  it('counts completed contributions in the configured currency only', async () => {
+    fixtures.Contribution = [
+      contribution('2026-05-01 10:00:00', 1000, { contact_id: 1 }),
+      contribution('2026-05-02 10:00:00', 2000, { contact_id: 1 }),
+      contribution('2026-05-03 10:00:00', 4000, { contact_id: 2, 'contribution_status_id:name': 'Pending' }),
+      contribution('2026-05-04 10:00:00', 50, { contact_id: 3, currency: 'USD' }),
+    ];
+    const yer = await computeCiviStats(client, 'YER', NOW);
+    assert.deepEqual([yer.totalDonors, yer.totalDonations, yer.currency], [1, 3000, 'YER']);
+    const usd = await computeCiviStats(client, 'USD', NOW);
+    assert.deepEqual([usd.totalDonors, usd.totalDonations, usd.trends.at(-2)], [1, 50, { month: 'May', amount: 50 }]);
+  });
+
+  it('counts active campaigns and their goals', async () => {
+    fixtures.Campaign = [campaign(true, 6_000_000), campaign(true, null), campaign(false, 1_500_000)];
+    const stats = await computeCiviStats(client, 'YER', NOW);
+    assert.equal(stats.activeProjects, 2);
+    assert.equal(stats.campaignGoal, 6_000_000);
+  });
+
+  it('follows pages until a short one comes back', async () => {
+    fixtures.Contribution = Array.from({ length: 1201 }, () => contribution('2026-06-01 10:00:00', 10));
+    const stats = await computeCiviStats(client, 'YER', NOW);
+    assert.equal(stats.totalDonors, 1201);
+    assert.equal(stats.totalDonations, 12010);
+    assert.deepEqual(requests.filter(r => r.entity === 'Contribution').map(r => [r.params.offset, r.params.limit]), [[0, 500], [500, 500], [1000, 500]]);
+  });
+
+  it('asks for one more page when the last one is exactly full', async () => {
+    fixtures.Contribution = Array.from({ length: 500 }, () => contribution('2026-06-01 10:00:00', 10));
+    await computeCiviStats(client, 'YER', NOW);
+    assert.equal(requests.filter(r => r.entity === 'Contribution').length, 2);
+  });
+});
+
+describe('crmRouter', () => {
+  let api: Awaited<ReturnType<typeof startApi>>;
+
+  const configure = (config: Partial<CiviCRMConfig>) =>
+    setSetting<CiviCRMConfig>(api.store.db, 'civicrm', { baseUrl: CIVI_URL, apiKey: API_KEY, currency: 'YER', ...config });
+
+  const call = <T>(path: string, method = 'GET') => api.request<T>(`/crm${path}`, method);
+
+  before(async () => {
+    api = await startApi(store => ({ '/crm': crmRouter(store, fetchImpl) }));
+  });
+
+  after(() => api.close());
+
+  beforeEach(() => {
+    api.store.db.prepare("DELETE FROM settings WHERE key IN ('civicrm', 'crmStats', 'crmSync')").run();
+  });
+
+  describe('GET /health', () => {
+    it('reports an unconfigured connection without calling out', async () => {
+      const { body } = await call<CiviCRMHealth>('/health');
+      assert.equal(body.status, 'unconfigured');
+      assert.equal(requests.length, 0);
+    });
+
+    it('is ok when CiviCRM answers', async () => {
+      configure({});
+      const { body } = await call<CiviCRMHealth>('/health');
+      assert.equal(body.status, 'ok');
+      assert.equal(typeof body.latencyMs, 'number');
+    });
+
+    it('explains a rejected API key', async () => {
+      configure({ apiKey: 'wrong-key' });
+      const { status, body } = await call<CiviCRMHealth>('/health');
+      assert.equal(status, 200);
+      assert.equal(body.status, 'error');
+      assert.equal(body.message, 'CiviCRM Contact.get failed: Authorization failed');
+    });
+
+    it('explains an unreachable server', async () => {
+      configure({ baseUrl: DOWN_URL });
+      const { body } = await call<CiviCRMHealth>('/health');
+      assert.equal(body.status, 'error');
+      assert.equal(body.message, `Could not reach CiviCRM at ${DOWN_URL}: fetch failed`);
+    });
+  });
+
+  describe('POST /sync', () => {
+    it('refuses to sync before CiviCRM is configured', async () => {
+      const { status } = await call('/sync', 'POST');
+      assert.equal(status, 400);
+    });
+
+    it('stores fresh figures', async () => {
+      configure({});
+      fixtures.Contribution = [contribution(`${new Date().toISOString().slice(0, 10)} 10:00:00`, 700)];
+      const { status, body } = await call<CiviCRMStats>('/sync', 'POST');
+      assert.equal(status, 200);
+      assert.equal(body.totalDonations, 700);
+      assert.deepEqual((await call<CiviCRMStats>('/stats')).body, body);
+    });
+
+    it('keeps the last good figures and records the error when a sync fails', async () => {
+      configure({});
+      fixtures.Contribution = [contribution('2026-06-01 10:00:00', 700)];
+      const good = (await call<CiviCRMStats>('/sync', 'POST')).body;
+
+      configure({ apiKey: 'wrong-key' });
+      const failed = await call<{ error: string }>('/sync', 'POST');
+      assert.equal(failed.status, 502);
+      assert.match(failed.body.error, /Authorization failed/);
+      assert.deepEqual((await call<CiviCRMStats>('/stats')).body, good);
+      const health = (await call<CiviCRMHealth>('/health')).body;
+      assert.equal(health.lastSyncError?.message, failed.body.error);
+      assert.equal(health.lastSync, good.lastSync);
+
+      configure({});
+      await call('/sync', 'POST');
+      assert.equal((await call<CiviCRMHealth>('/health')).body.lastSyncError, null);
+    });
+
+    it('reports an unexpected response instead of failing on it', async () => {
+      configure({ baseUrl: BROKEN_URL });
+      const { status, body } = await call<{ error: string }>('/sync', 'POST');
+      assert.equal(status, 502);
+      assert.match(body.error, /unexpected response \(HTTP 500\)/);
+    });
+  });
+});
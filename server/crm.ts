@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import type { CiviCRMHealth, CiviCRMSettings, CiviCRMStats } from '../types';
+import { requirePermission } from './auth';
+import { CiviCRMError, computeCiviStats, createCiviClient, pingCivi, type CiviCRMConfig } from './civicrm';
+import { HttpError } from './errors';
+import { getSetting, setSetting } from './repository';
+import type { Store } from './store';
+import { validate } from './validation';
+
+const EMPTY_STATS: CiviCRMStats = { totalDonors: 0, activeProjects: 0, totalDonations: 0, lastSync: null, trends: [] };
+
+type SyncState = Pick<CiviCRMHealth, 'lastSyncError'>;
+
+const toSettings = (config?: CiviCRMConfig): CiviCRMSettings => ({
+  baseUrl: config?.baseUrl ?? '',
+  currency: config?.currency ?? 'YER',
+  hasApiKey: !!config?.apiKey,
+});
+
+export const crmRouter = (store: Store, fetchImpl: typeof fetch = fetch) => {
+  const router = Router();
+  const canRead = requirePermission(store, 'crm:read');
+  const canSync = requirePermission(store, 'crm:sync');
+  const canConfigure = requirePermission(store, 'settings:manage');
+
+  const config = () => {
+    const value = getSetting<CiviCRMConfig>(store.db, 'civicrm');
+    return value?.baseUrl && value.apiKey ? value : undefined;
+  };
+  const stats = () => getSetting<CiviCRMStats>(store.db, 'crmStats') ?? EMPTY_STATS;
+
+  router.get('/stats', canRead, (_req, res) => {
+    res.json(stats());
+  });
+
+  router.post('/sync', canSync, async (_req, res) => {
+    const current = config();
+    if (!current) throw new HttpError(400, 'CiviCRM is not configured yet');
+    try {
+      const fresh = await computeCiviStats(createCiviClient(current, fetchImpl), current.currency);
+      setSetting<SyncState>(store.db, 'crmSync', { lastSyncError: null });
+      res.json(setSetting(store.db, 'crmStats', fresh));
+    } catch (error) {
+      if (!(error instanceof CiviCRMError)) throw error;
+      // Keep the last good figures, but remember why this sync failed for the health panel.
+      setSetting<SyncState>(store.db, 'crmSync', { lastSyncError: { at: new Date().toISOString(), message: error.message } });
+      throw new HttpError(502, error.message);
+    }
+  });
+
+  // A live round trip rather than a cached flag, so "healthy" means CiviCRM answered just now.
+  router.get('/health', canRead, async (_req, res) => {
+    const current = config();
+    const base = { checkedAt: new Date().toISOString(), lastSync: stats().lastSync, lastSyncError: getSetting<SyncState>(store.db, 'crmSync')?.lastSyncError ?? null };
+    if (!current) {
+      res.json({ ...base, status: 'unconfigured' } satisfies CiviCRMHealth);
+      return;
+    }
+    try {
+      res.json({ ...base, status: 'ok', latencyMs: await pingCivi(createCiviClient(current, fetchImpl)) } satisfies CiviCRMHealth);
+    } catch (error) {
+      if (!(error instanceof CiviCRMError)) throw error;
+      res.json({ ...base, status: 'error', message: error.message } satisfies CiviCRMHealth);
+    }
+  });
+
+  router.get('/settings', canConfigure, (_req, res) => {
+    res.json(toSettings(getSetting<CiviCRMConfig>(store.db, 'civicrm')));
+  });
+
+  router.put('/settings', canConfigure, (req, res) => {
+    const body = validate<Partial<CiviCRMSettings>>(req.body, { baseUrl: 'string?', apiKey: 'string?', currency: 'string?' });
+    const current = getSetting<CiviCRMConfig>(store.db, 'civicrm') ?? { baseUrl: '', apiKey: '', currency: 'YER' };
+    const baseUrl = body.baseUrl?.trim() ?? current.baseUrl;
+    if (baseUrl && !/^https?:\/\/\S+$/.test(baseUrl)) throw new HttpError(400, '"baseUrl" must be an http(s) URL');
+    const currency = body.currency?.trim().toUpperCase() ?? current.currency;
+    if (!/^[A-Z]{3}$/.test(currency)) throw new HttpError(400, '"currency" must be a three-letter ISO code');
+    // An empty key field in the form means "unchanged"; the stored key is never sent back.
+    const apiKey = body.apiKey?.trim() || current.apiKey;
+    res.json(toSettings(setSetting(store.db, 'civicrm', { baseUrl, apiKey, currency })));
+  });
+
+  return router;
+};
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toCsv } from './csv';
+
+const line = (row: Parameters<typeof toCsv>[0][number]) => toCsv([row]).slice(1, -2);
+
+describe('toCsv', () => {
+  it('quotes cells with separators, quotes or line breaks', () => {
+    assert.equal(line(['plain', 'a,b', 'say "hi"', 'two\nlines', null, 12.5]), 'plain,"a,b","say ""hi""","two\nlines",,12.5');
+  });
+
+  it('keeps text that a spreadsheet would run as a formula as text', () => {
+    assert.equal(line(['=1+1', '+966', '-2', '@SUM(A1)', '\tTab']), "'=1+1,'+966,'-2,'@SUM(A1),'\tTab");
+    assert.equal(line(['=HYPERLINK("http://x","y")']), `"'=HYPERLINK(""http://x"",""y"")"`);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    assert.equal(line([-250, 'Shop - Sana\'a', 'a=b']), "-250,Shop - Sana'a,a=b");
+  });
+});
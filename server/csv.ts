@@ -0,0 +1,14 @@
+export type CsvValue = string | number | null | undefined;
+
+/** Spreadsheets run text starting with one of these as a formula. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CsvValue) => {
+  const raw = value == null ? '' : String(value);
+  // A leading ' keeps names like "=HYPERLINK(...)" from reports or shops as text; numbers are ours and stay numbers.
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV, UTF-8 with a BOM so Excel shows Arabic text correctly. */
+export const toCsv = (rows: CsvValue[][]) => '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
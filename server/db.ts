@@ -0,0 +1,37 @@
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Every entity from types.ts is stored as a JSON document keyed by its id.
+// The shapes are small and still evolving, so we keep the schema to one
+// table per collection instead of mirroring every field as a column.
+export const COLLECTIONS = ['users', 'products', 'price_revisions', 'reports', 'shops', 'jobs', 'job_applications', 'news', 'media', 'media_albums', 'publications', 'projects', 'exchange_rates', 'survey_rounds', 'price_observations'] as const;
+export type CollectionName = typeof COLLECTIONS[number];
+
+export const openDatabase = (file = process.env.DB_PATH || path.resolve('data', 'cpa.db')) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+
+  for (const name of COLLECTIONS) {
+    db.exec(`CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    )`);
+  }
+  db.exec(`CREATE TABLE IF NOT EXISTS settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+  // Highest numeric id ever handed out per collection, so ids of deleted records are not reused.
+  db.exec(`CREATE TABLE IF NOT EXISTS sequences (name TEXT PRIMARY KEY, value INTEGER NOT NULL)`);
+  db.exec(`CREATE TABLE IF NOT EXISTS sessions (
+    tokenHash TEXT PRIMARY KEY,
+    userId TEXT NOT NULL,
+    expiresAt TEXT NOT NULL,
+    createdAt TEXT NOT NULL
+  )`);
+
+  return db;
+};
+
+export type DB = Database.Database;
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import type { CurrencyRate, ExchangeRate, RateImportResult } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import { RateImportError, type ImportedRate, type RateImporter } from './rateSources';
+import type { Store } from './store';
+import { validate } from './validation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HISTORY_DAYS = 730;
+
+/** Entries per currency, oldest first. */
+const ratesByCurrency = (store: Store) => {
+  const groups = new Map<string, ExchangeRate[]>();
+  for (const rate of store.exchangeRates.list()) groups.set(rate.currency, [...(groups.get(rate.currency) ?? []), rate]);
+  for (const entries of groups.values()) entries.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt) || a.id - b.id);
+  return groups;
+};
+
+export const currentRates = (store: Store): CurrencyRate[] => [...ratesByCurrency(store).values()].map(entries => {
+  const latest = entries[entries.length - 1];
+  const previous = entries[entries.length - 2];
+  // Taiz quotes move on the sell side first, so that is what the arrow follows.
+  const indicator = !previous || previous.sell === latest.sell ? 'stable' : latest.sell > previous.sell ? 'up' : 'down';
+  return { currency: latest.currency, buy: latest.buy, sell: latest.sell, indicator, recordedAt: latest.recordedAt, source: latest.source };
+});
+
+/** Records only what differs from the latest entry, so a scheduled import does not flood the history. */
+export const importRates = async (store: Store, importer: RateImporter): Promise<RateImportResult> => {
+  const fetched = await importer.fetchRates();
+  const current = new Map(currentRates(store).map(r => [r.currency, r]));
+  const result: RateImportResult = { source: importer.name, recorded: [], unchanged: [] };
+  const recordedAt = new Date().toISOString();
+  for (const rate of fetched) {
+    const latest = current.get(rate.currency);
+    if (latest && latest.buy === rate.buy && latest.sell === rate.sell) result.unchanged.push(rate.currency);
+    else result.recorded.push(store.exchangeRates.create({ ...rate, recordedAt, source: importer.name }));
+  }
+  return result;
+};
+
+export const exchangeRatesRouter = (store: Store, importer: RateImporter | null) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'rates:manage');
+
+  router.get('/', (_req, res) => {
+    res.json(currentRates(store));
+  });
+
+  router.get('/history', (req, res) => {
+    const days = Math.min(Number(req.query.days) || 90, MAX_HISTORY_DAYS);
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : undefined;
+    res.json([...ratesByCurrency(store).entries()]
+      .filter(([code]) => !currency || code === currency)
+      .flatMap(([, entries]) => entries.filter(r => r.recordedAt >= since)));
+  });
+
+  router.post('/', canManage, (req, res) => {
+    const body = validate<ImportedRate>(req.body, { currency: 'string', buy: 'number', sell: 'number' });
+    const currency = body.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) throw new HttpError(400, '"currency" must be a three-letter ISO code');
+    if (body.buy <= 0 || body.sell <= 0) throw new HttpError(400, 'Rates must be positive');
+    if (body.sell < body.buy) throw new HttpError(400, 'The sell rate cannot be below the buy rate');
+    const user = currentUser(res);
+    res.status(201).json(store.exchangeRates.create({
+      currency, buy: body.buy, sell: body.sell, recordedAt: new Date().toISOString(), source: 'Manual entry', editorId: user.id, editorName: user.name,
+    }));
+  });
+
+  router.get('/importer', canManage, (_req, res) => {
+    res.json({ name: importer?.name ?? null });
+  });
+
+  router.post('/import', canManage, async (_req, res) => {
+    if (!importer) throw new HttpError(400, 'No rate source is configured');
+    try {
+      res.json(await importRates(store, importer));
+    } catch (error) {
+      if (!(error instanceof RateImportError)) throw error;
+      throw new HttpError(502, error.message);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,99 @@
+import PDFDocument from 'pdfkit';
+import type { Writable } from 'node:stream';
+import type { ProjectSummary } from '../types';
+
+export interface ImpactReportInput {
+  summary: ProjectSummary;
+  period: { from: string; to: string };
+  donors: string[];
+}
+
+const ACCENT = '#047857';
+const MUTED = '#6b7280';
+
+const money = (amount: number, currency: string) => `${amount.toLocaleString('en')} ${currency}`;
+const percent = (rate: number | null) => rate === null ? 'n/a' : `${Math.round(rate * 100)}%`;
+
+/**
+ * Writes a one-period impact report as PDF to `out`. English only: the bundled standard fonts
+ * have no Arabic glyphs, and donors receiving these reports read them in English.
+ */
+export const renderImpactReport = (out: Writable, { summary, period, donors }: ImpactReportInput) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Impact report: ${summary.nameEn}`, Author: 'Consumer Protection Association - Taiz' } });
+  doc.pipe(out);
+  const width = doc.page.width - 100;
+
+  const heading = (text: string) => {
+    doc.moveDown(1.2).font('Helvetica-Bold').fontSize(13).fillColor(ACCENT).text(text).moveDown(0.4);
+    doc.font('Helvetica').fontSize(10).fillColor('black');
+  };
+
+  const table = (columns: { label: string, width: number, align?: 'left' | 'right' }[], rows: string[][]) => {
+    const row = (cells: string[], bold = false) => {
+      if (doc.y > doc.page.height - 80) doc.addPage();
+      const y = doc.y;
+      let x = 50;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      cells.forEach((cell, i) => {
+        doc.text(cell, x, y, { width: columns[i].width * width - 6, align: columns[i].align ?? 'left' });
+        x += columns[i].width * width;
+      });
+      doc.x = 50;
+      doc.moveDown(0.3);
+    };
+    row(columns.map(c => c.label), true);
+    doc.moveTo(50, doc.y).lineTo(50 + width, doc.y).strokeColor('#d1d5db').stroke().moveDown(0.3);
+    rows.forEach(cells => row(cells));
+    doc.font('Helvetica');
+  };
+
+  doc.font('Helvetica').fontSize(9).fillColor(MUTED).text('Consumer Protection Association - Taiz');
+  doc.font('Helvetica-Bold').fontSize(20).fillColor('black').text('Impact report');
+  doc.font('Helvetica').fontSize(14).text(summary.nameEn);
+  doc.fontSize(10).fillColor(MUTED)
+    .text(`Reporting period: ${period.from} to ${period.to}`)
+    .text(`Project dates: ${summary.startDate} to ${summary.endDate ?? 'ongoing'}`);
+  if (donors.length) doc.text(`Funded by: ${donors.join(', ')}`);
+  doc.fillColor('black').moveDown().text(summary.descriptionEn);
+
+  heading('Budget');
+  const spentTotal = summary.expenses.reduce((sum, e) => sum + e.amount, 0);
+  table([{ label: '', width: 0.6 }, { label: 'Amount', width: 0.4, align: 'right' }], [
+    ['Total budget', money(summary.budget, summary.currency)],
+    ['Spent in this period', money(summary.spent, summary.currency)],
+    ['Spent since project start', money(spentTotal, summary.currency)],
+    ['Remaining', money(summary.budget - spentTotal, summary.currency)],
+  ]);
+
+  heading('Outcomes in this period');
+  const { outcomes } = summary;
+  table([{ label: 'Indicator', width: 0.6 }, { label: 'Value', width: 0.4, align: 'right' }], [
+    ['Violation reports received', String(outcomes.reportsReceived)],
+    ['Reports resolved', String(outcomes.resolved)],
+    ['Resolution rate', percent(outcomes.resolutionRate)],
+    ['Median days to resolve', outcomes.medianDaysToResolve === null ? 'n/a' : String(outcomes.medianDaysToResolve)],
+    ['Overcharging reports', String(outcomes.overchargeReports)],
+    ['Shops involved', String(outcomes.shopsInvolved)],
+  ]);
+  const scope = [
+    summary.categories.length ? `categories ${summary.categories.join(', ')}` : 'all product categories',
+    summary.districts.length ? `districts ${summary.districts.join(', ')}` : 'all districts',
+  ];
+  doc.moveDown(0.3).fontSize(8).fillColor(MUTED).text(`Counts cover reports submitted in the period for ${scope.join(' and ')}.`).fontSize(10).fillColor('black');
+
+  heading('Monthly activity');
+  table([{ label: 'Month', width: 0.4 }, { label: 'Received', width: 0.3, align: 'right' }, { label: 'Resolved', width: 0.3, align: 'right' }],
+    summary.monthly.map(m => [m.month, String(m.received), String(m.resolved)]));
+
+  heading('Expenses in this period');
+  const expenses = summary.expenses.filter(e => e.date >= period.from && e.date <= period.to);
+  if (expenses.length) {
+    table([{ label: 'Date', width: 0.2 }, { label: 'Description', width: 0.55 }, { label: 'Amount', width: 0.25, align: 'right' }],
+      expenses.map(e => [e.date, e.description, money(e.amount, summary.currency)]));
+  } else {
+    doc.fillColor(MUTED).text('No expenses were recorded in this period.').fillColor('black');
+  }
+
+  doc.moveDown(2).fontSize(8).fillColor(MUTED).text(`Generated ${new Date().toISOString().slice(0, 10)}.`);
+  doc.end();
+};
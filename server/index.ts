@@ -0,0 +1,28 @@
+import { createAnalysisProvider } from './analysis';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { currentRates, importRates } from './exchangeRates';
+import { createNotificationProvider } from './notifications';
+import { refreshCurrentPrices } from './products';
+import { createRateImporter } from './rateSources';
+import { seedDatabase } from './seed';
+import { createStore } from './store';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const store = createStore(openDatabase());
+await seedDatabase(store);
+refreshCurrentPrices(store);
+setInterval(() => refreshCurrentPrices(store), 60 * 60 * 1000);
+
+const analysis = createAnalysisProvider();
+const notifications = createNotificationProvider();
+const rateImporter = createRateImporter(() => currentRates(store));
+const importMinutes = Number(process.env.RATES_IMPORT_INTERVAL_MINUTES);
+if (rateImporter && importMinutes > 0) {
+  setInterval(() => importRates(store, rateImporter).catch(error => console.error('Scheduled rate import failed:', error.message)), importMinutes * 60 * 1000);
+}
+
+createApp(store, analysis, notifications, rateImporter).listen(PORT, () => {
+  console.log(`CPA API listening on http://localhost:${PORT} (analysis provider: ${analysis.name}, notifications: ${notifications.name}, rates: ${rateImporter?.name ?? 'manual'})`);
+});
@@ -0,0 +1,217 @@
+import { randomUUID } from 'node:crypto';
+import express, { Router, type Request } from 'express';
+import sharp from 'sharp';
+import type { MediaAlbum, MediaItem, MediaProvider, MediaVariant } from '../types';
+import { requirePermission } from './auth';
+import { HttpError } from './errors';
+import type { Store } from './store';
+import { checkUpload, decodeBase64, IMAGE_TYPES, removeUpload, saveUploadBytes, UPLOAD_URL, VIDEO_TYPES, writeUpload } from './uploads';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+type ImageUpload = { fileName: string, content: string };
+
+const FOLDER = 'media';
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 100 * 1024 * 1024;
+/** Widths offered in `srcset`; images are never enlarged, so small originals get fewer. */
+const VARIANT_WIDTHS = [480, 960, 1600];
+const THUMBNAIL = { width: 480, height: 360 };
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TAG_LENGTH = 40;
+
+const byNewest = (a: MediaItem, b: MediaItem) => b.date.localeCompare(a.date) || b.id - a.id;
+
+/**
+ * Re-encodes an uploaded image as WebP at each of VARIANT_WIDTHS plus a cropped thumbnail.
+ * Photos are turned upright first and, like every sharp output, lose their EXIF data, which
+ * for phone pictures includes where they were taken. The original file is not kept.
+ */
+const storeImage = async (upload: ImageUpload, withVariants = true) => {
+  const bytes = decodeBase64(upload.content);
+  checkUpload({ folder: FOLDER, types: IMAGE_TYPES, maxBytes: MAX_IMAGE_BYTES }, upload.fileName, bytes);
+  const name = randomUUID();
+  const variants: MediaVariant[] = [];
+  try {
+    if (withVariants) {
+      for (const width of VARIANT_WIDTHS) {
+        const { data, info } = await sharp(bytes).rotate().resize({ width, withoutEnlargement: true }).webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
+        if (variants.at(-1)?.width === info.width) break;
+        variants.push({ width: info.width, url: await writeUpload({ folder: FOLDER }, `${name}-${info.width}.webp`, data) });
+      }
+    }
+    const thumbnail = await sharp(bytes).rotate().resize({ ...THUMBNAIL, fit: 'cover' }).webp({ quality: 75 }).toBuffer();
+    return { variants, thumbnail: await writeUpload({ folder: FOLDER }, `${name}-thumb.webp`, thumbnail) };
+  } catch (error) {
+    await Promise.all(variants.map(v => removeUpload(v.url)));
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'The image could not be read');
+  }
+};
+
+const mediaFiles = (item: Pick<MediaItem, 'url' | 'thumbnail' | 'variants'>) => [...new Set([item.url, item.thumbnail, ...item.variants.map(v => v.url)])];
+
+/** Turns a YouTube or Vimeo page/share link into the address of its embeddable player. */
+export const parseVideoLink = (link: string): { provider: MediaProvider, url: string, thumbnail: string } | null => {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  const host = url.hostname.replace(/^(www|m)\./, '');
+
+  const youtubeId = host === 'youtu.be' ? url.pathname.slice(1)
+    : host === 'youtube.com' || host === 'youtube-nocookie.com' ? url.searchParams.get('v') ?? url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1]
+    : undefined;
+  if (youtubeId !== undefined) {
+    if (!/^[\w-]{11}$/.test(youtubeId ?? '')) return null;
+    return { provider: 'youtube', url: `https://www.youtube-nocookie.com/embed/${youtubeId}`, thumbnail: `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg` };
+  }
+
+  const vimeoId = host === 'vimeo.com' ? url.pathname.match(/^\/(\d+)/)?.[1]
+    : host === 'player.vimeo.com' ? url.pathname.match(/^\/video\/(\d+)/)?.[1]
+    : undefined;
+  // Vimeo offers no predictable thumbnail address; a poster can be uploaded instead.
+  if (vimeoId) return { provider: 'vimeo', url: `https://player.vimeo.com/video/${vimeoId}`, thumbnail: '' };
+  return null;
+};
+
+const isUploadedVideo = (url: string) =>
+  url.startsWith(`${UPLOAD_URL}/${FOLDER}/`) && !url.includes('..') && VIDEO_TYPES.some(type => url.endsWith(`.${type}`));
+
+/**
+ * Items stored before the library had albums, tags and generated sizes. A "video" whose
+ * address is neither a known player nor a video file was only ever a picture, so it
+ * becomes an image.
+ */
+export const migrateLegacyMedia = (store: Store) => {
+  for (const item of store.media.list()) {
+    if (Array.isArray(item.variants)) continue;
+    const embed = item.type === 'video' ? parseVideoLink(item.url) : null;
+    const file = item.type === 'video' && /\.(mp4|webm)(\?|$)/i.test(item.url);
+    store.media.update(item.id, {
+      ...(embed ? { type: 'video', provider: embed.provider, url: embed.url, thumbnail: embed.thumbnail }
+        : file ? { type: 'video', provider: 'file', thumbnail: '' }
+        : { type: 'image', provider: undefined, thumbnail: item.url }),
+      variants: [], albumId: null, tags: [],
+    });
+  }
+};
+
+export const mediaRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'content:manage');
+
+  const findItem = (id: string) => {
+    const item = store.media.get(id);
+    if (!item) throw new HttpError(404, 'Not found');
+    return item;
+  };
+
+  const findAlbum = (id: string) => {
+    const album = store.mediaAlbums.get(id);
+    if (!album) throw new HttpError(404, 'Not found');
+    return album;
+  };
+
+  /** Captions, date, album and tags: the fields an editor can change after upload. */
+  const parseDetails = (body: unknown, existing?: MediaItem): Pick<MediaItem, 'captionAr' | 'captionEn' | 'date' | 'albumId' | 'tags'> => {
+    const patch = validate<Partial<MediaItem>>(body, schemas.media, !!existing);
+    const merged = { albumId: null, tags: [], ...existing, ...patch } as MediaItem;
+    if (!DATE_RE.test(merged.date)) throw new HttpError(400, '"date" must be a YYYY-MM-DD date');
+    if (merged.albumId !== null && !store.mediaAlbums.get(merged.albumId)) throw new HttpError(400, 'Unknown album');
+    if (!Array.isArray(merged.tags) || merged.tags.some(tag => typeof tag !== 'string')) throw new HttpError(400, '"tags" must be a list of strings');
+    const tags = [...new Set(merged.tags.map(tag => tag.trim()).filter(Boolean))];
+    if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) throw new HttpError(400, `Tags may be at most ${MAX_TAG_LENGTH} characters`);
+    return { captionAr: merged.captionAr.trim(), captionEn: merged.captionEn.trim(), date: merged.date, albumId: merged.albumId, tags };
+  };
+
+  const parseAlbum = (body: unknown): Omit<MediaAlbum, 'id'> => {
+    const album = validate<MediaAlbum>(body, schemas.mediaAlbum);
+    if (!album.titleAr.trim() || !album.titleEn.trim()) throw new HttpError(400, 'Albums need an Arabic and an English title');
+    return { titleAr: album.titleAr.trim(), titleEn: album.titleEn.trim() };
+  };
+
+  router.get('/', (_req, res) => {
+    res.json(store.media.list().sort(byNewest));
+  });
+
+  router.get('/albums', (_req, res) => {
+    res.json(store.mediaAlbums.list());
+  });
+
+  router.post('/albums', canManage, (req, res) => {
+    res.status(201).json(store.mediaAlbums.create(parseAlbum(req.body)));
+  });
+
+  router.put('/albums/:id', canManage, (req: IdRequest, res) => {
+    const album = findAlbum(req.params.id);
+    res.json(store.mediaAlbums.update(album.id, parseAlbum(req.body)));
+  });
+
+  // The photos and videos stay in the library, just no longer grouped.
+  router.delete('/albums/:id', canManage, (req: IdRequest, res) => {
+    const album = findAlbum(req.params.id);
+    store.db.transaction(() => {
+      store.media.list().filter(item => item.albumId === album.id).forEach(item => store.media.update(item.id, { albumId: null }));
+      store.mediaAlbums.remove(album.id);
+    })();
+    res.status(204).end();
+  });
+
+  /** Video files are sent as the raw request body (not base64 JSON) because of their size. */
+  router.post('/videos', canManage, express.raw({ type: VIDEO_TYPES.map(type => `video/${type}`), limit: MAX_VIDEO_BYTES }), async (req, res) => {
+    const fileName = typeof req.query.fileName === 'string' ? req.query.fileName : '';
+    if (!Buffer.isBuffer(req.body)) throw new HttpError(415, 'Send the video as video/mp4 or video/webm');
+    res.status(201).json(await saveUploadBytes({ folder: FOLDER, types: VIDEO_TYPES, maxBytes: MAX_VIDEO_BYTES }, fileName, req.body));
+  });
+
+  /**
+   * Adds an item: either `image` (a base64 upload) or `video`, which is a YouTube/Vimeo link or
+   * the URL returned by POST /videos. Videos may come with a `poster` image.
+   */
+  router.post('/', canManage, async (req, res) => {
+    const body = validate<{ image?: ImageUpload, video?: string, poster?: ImageUpload }>(req.body, { image: 'object?', video: 'string?', poster: 'object?' });
+    const details = parseDetails(req.body);
+    if (!body.image === !body.video) throw new HttpError(400, 'Send either an "image" or a "video"');
+
+    if (body.image) {
+      const image = await storeImage(validate<ImageUpload>(body.image, { fileName: 'string', content: 'string' }));
+      res.status(201).json(store.media.create({ type: 'image', url: image.variants.at(-1)!.url, ...image, ...details }));
+      return;
+    }
+    const embed = parseVideoLink(body.video!);
+    if (!embed && !isUploadedVideo(body.video!)) throw new HttpError(400, 'Videos must be a YouTube or Vimeo link, or an uploaded MP4/WebM file');
+    const poster = body.poster ? await storeImage(validate<ImageUpload>(body.poster, { fileName: 'string', content: 'string' }), false) : null;
+    res.status(201).json(store.media.create({
+      type: 'video', provider: embed?.provider ?? 'file', url: embed?.url ?? body.video!, variants: [],
+      thumbnail: poster?.thumbnail ?? embed?.thumbnail ?? '', ...details,
+    }));
+  });
+
+  router.put('/:id', canManage, (req: IdRequest, res) => {
+    const item = findItem(req.params.id);
+    res.json(store.media.update(item.id, parseDetails(req.body, item)));
+  });
+
+  /** Replaces a video's cover image. */
+  router.put('/:id/poster', canManage, async (req: IdRequest, res) => {
+    const item = findItem(req.params.id);
+    if (item.type !== 'video') throw new HttpError(400, 'Only videos take a poster image');
+    const { thumbnail } = await storeImage(validate<ImageUpload>(req.body, { fileName: 'string', content: 'string' }), false);
+    const updated = store.media.update(item.id, { thumbnail })!;
+    await removeUpload(item.thumbnail);
+    res.json(updated);
+  });
+
+  router.delete('/:id', canManage, async (req: IdRequest, res) => {
+    const item = findItem(req.params.id);
+    store.media.remove(item.id);
+    await Promise.all(mediaFiles(item).map(removeUpload));
+    res.status(204).end();
+  });
+
+  return router;
+};
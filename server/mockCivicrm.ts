@@ -0,0 +1,98 @@
+import express from 'express';
+import { pathToFileURL } from 'node:url';
+
+// A stand-in for a CiviCRM site's APIv4 REST endpoint, enough for the portal's client: Contact,
+// Contribution and Campaign `get` with select/where/limit/offset and API key auth. Use it to try
+// the integration locally or to exercise failure handling (stop it, or use a wrong key).
+//
+//   npm run mock:civicrm        -> http://localhost:8089/civicrm/ajax/api4, key "mock-key"
+
+type Row = Record<string, unknown>;
+type Condition = [field: string, operator: string, value?: unknown];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Small deterministic generator so every run serves the same figures. */
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+  return seed / 2 ** 32;
+};
+
+const buildFixtures = (now = new Date()) => {
+  const next = random(46);
+  const names = ['Hayel Saeed Anam Foundation', 'Taiz Traders Union', 'Amal Relief', 'Yemen Aid Network', 'Sanaa Chamber of Commerce'];
+  const contacts: Row[] = [
+    ...names.map((name, i) => ({ id: i + 1, display_name: name, contact_type: 'Organization' })),
+    ...Array.from({ length: 35 }, (_, i) => ({ id: names.length + i + 1, display_name: `Individual Donor ${i + 1}`, contact_type: 'Individual' })),
+  ];
+  const campaigns: Row[] = [
+    { id: 1, title: 'Price Monitoring 2026', is_active: true, goal_revenue: 6000000, start_date: '2026-01-01', end_date: '2026-12-31' },
+    { id: 2, title: 'Consumer Awareness Radio', is_active: true, goal_revenue: 2500000, start_date: '2026-03-01', end_date: null },
+    { id: 3, title: 'Winter Fuel Watch 2025', is_active: false, goal_revenue: 1500000, start_date: '2025-10-01', end_date: '2026-02-28' },
+  ];
+  const contributions: Row[] = Array.from({ length: 120 }, (_, i) => {
+    const date = new Date(now.getTime() - Math.floor(next() * 240) * DAY_MS);
+    return {
+      id: i + 1,
+      contact_id: 1 + Math.floor(next() * contacts.length),
+      total_amount: Math.round(5000 + next() * 95000),
+      currency: i % 15 === 0 ? 'USD' : 'YER',
+      receive_date: `${date.toISOString().slice(0, 10)} 10:00:00`,
+      campaign_id: 1 + Math.floor(next() * campaigns.length),
+      'contribution_status_id:name': i % 10 === 0 ? 'Pending' : 'Completed',
+    };
+  });
+  return { Contact: contacts, Contribution: contributions, Campaign: campaigns } as Record<string, Row[]>;
+};
+
+const matches = (row: Row, [field, operator, value]: Condition) => {
+  const actual = row[field] as string | number | boolean;
+  switch (operator) {
+    case '=': return actual === value;
+    case '!=': return actual !== value;
+    case '>': return actual > (value as string | number);
+    case '>=': return actual >= (value as string | number);
+    case '<': return actual < (value as string | number);
+    case '<=': return actual <= (value as string | number);
+    case 'IN': return Array.isArray(value) && value.includes(actual);
+    default: throw new Error(`Operator "${operator}" is not supported by the mock`);
+  }
+};
+
+export const createMockCiviCRM = ({ apiKey = 'mock-key', fixtures = buildFixtures() } = {}) => {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.post('/civicrm/ajax/api4/:entity/:action', (req, res) => {
+    if (req.get('X-Civi-Auth') !== `Bearer ${apiKey}`) {
+      res.status(401).json({ error_code: 0, error_message: 'Authorization failed' });
+      return;
+    }
+    const rows = fixtures[req.params.entity];
+    if (!rows || req.params.action !== 'get') {
+      res.status(404).json({ error_code: 0, error_message: `API (${req.params.entity}, ${req.params.action}) does not exist` });
+      return;
+    }
+    let params: { select?: string[], where?: Condition[], limit?: number, offset?: number };
+    try {
+      params = JSON.parse(req.body.params ?? '{}');
+      const filtered = rows.filter(row => (params.where ?? []).every(condition => matches(row, condition)));
+      const offset = params.offset ?? 0;
+      const page = filtered.slice(offset, params.limit ? offset + params.limit : undefined);
+      const values = page.map(row => params.select?.length ? Object.fromEntries(params.select.map(field => [field, row[field] ?? null])) : row);
+      res.json({ entity: req.params.entity, action: 'get', version: 4, count: values.length, countFetched: values.length, values });
+    } catch (error) {
+      res.status(400).json({ error_code: 0, error_message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return app;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_CIVICRM_PORT) || 8089;
+  const apiKey = process.env.MOCK_CIVICRM_API_KEY || 'mock-key';
+  createMockCiviCRM({ apiKey }).listen(port, () => {
+    console.log(`Mock CiviCRM APIv4 on http://localhost:${port}/civicrm/ajax/api4 (API key "${apiKey}")`);
+  });
+}
@@ -0,0 +1,153 @@
+import { Router, type Request } from 'express';
+import sanitizeHtml from 'sanitize-html';
+import type { NewsItem, NewsStatus } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import type { Store } from './store';
+import { IMAGE_TYPES, removeUpload, saveUpload } from './uploads';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+const STATUSES: NewsStatus[] = ['draft', 'scheduled', 'published'];
+const SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// Path segments of this router that an article slug must not shadow.
+const RESERVED_SLUGS = ['manage', 'images'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** What the editor may produce: headings, emphasis, lists, quotes, links and images. */
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ['p', 'br', 'h2', 'h3', 'strong', 'b', 'em', 'i', 'u', 'ul', 'ol', 'li', 'blockquote', 'a', 'img'],
+  allowedAttributes: { a: ['href', 'target', 'rel'], img: ['src', 'alt'] },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  transformTags: { a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer' }) },
+};
+
+export const sanitizeArticle = (html: string) => sanitizeHtml(html, SANITIZE_OPTIONS);
+
+/** Scheduled articles count as published from their `publishedAt` onwards, even before `publishDueNews` has run. */
+export const isLive = (item: NewsItem, now = new Date().toISOString()) =>
+  item.status !== 'draft' && !!item.publishedAt && item.publishedAt <= now;
+
+const newestFirst = (a: NewsItem, b: NewsItem) => (b.publishedAt ?? b.updatedAt).localeCompare(a.publishedAt ?? a.updatedAt);
+
+/** Flips scheduled articles whose time has come to "published", so the admin list shows the real state. */
+export const publishDueNews = (store: Store) => {
+  const now = new Date().toISOString();
+  for (const item of store.news.list()) {
+    if (item.status === 'scheduled' && isLive(item, now)) store.news.update(item.id, { status: 'published' });
+  }
+};
+
+/** Latin slug from the English title; Arabic-only titles fall back to `news`. */
+export const slugify = (text: string) => text
+  .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  .slice(0, 80).replace(/-+$/, '') || 'news';
+
+const uniqueSlug = (store: Store, base: string, exceptId?: number) => {
+  const taken = new Set(store.news.list().filter(n => n.id !== exceptId).map(n => n.slug));
+  let slug = base;
+  for (let n = 2; taken.has(slug) || RESERVED_SLUGS.includes(slug); n++) slug = `${base}-${n}`;
+  return slug;
+};
+
+/**
+ * Articles stored before the CMS referenced TEXTS keys and display dates ("11 Nov 2025").
+ * Rewrites them into the current shape once; already migrated articles are left alone.
+ */
+export const migrateLegacyNews = (store: Store) => {
+  type Legacy = Partial<NewsItem> & { titleKey?: string, descKey?: string, descAr?: string, descEn?: string, date?: string };
+  for (const item of store.news.list() as Legacy[]) {
+    if (item.slug) continue;
+    const date = new Date(`${item.date ?? ''} 09:00 UTC`);
+    const publishedAt = Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+    const titleEn = item.titleEn ?? item.titleKey ?? '';
+    const paragraph = (text?: string) => text ? `<p>${sanitizeHtml(text, { allowedTags: [] })}</p>` : '';
+    store.news.update(item.id!, {
+      slug: uniqueSlug(store, slugify(titleEn), item.id), titleAr: item.titleAr ?? titleEn, titleEn,
+      summaryAr: item.descAr ?? '', summaryEn: item.descEn ?? '', bodyAr: paragraph(item.descAr), bodyEn: paragraph(item.descEn),
+      status: 'published', publishedAt, updatedAt: publishedAt,
+      // Undefined values are dropped when the document is serialised, removing the legacy fields.
+      titleKey: undefined, descKey: undefined, descAr: undefined, descEn: undefined, date: undefined,
+    } as Legacy);
+  }
+};
+
+export const newsRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'content:manage');
+
+  const findArticle = (id: string) => {
+    const item = store.news.get(id);
+    if (!item) throw new HttpError(404, 'Not found');
+    return item;
+  };
+
+  /** Validates a create (full) or update (partial) body and normalises slug, HTML and publish time. */
+  const parseArticle = (body: unknown, existing?: NewsItem): Omit<NewsItem, 'id'> => {
+    const patch = validate<Partial<NewsItem>>(body, schemas.news, !!existing);
+    const { id: _id, ...merged } = { ...existing, ...patch } as NewsItem;
+    if (!STATUSES.includes(merged.status)) throw new HttpError(400, `"status" must be one of ${STATUSES.join(', ')}`);
+    if (merged.publishedAt && Number.isNaN(new Date(merged.publishedAt).getTime())) throw new HttpError(400, '"publishedAt" must be an ISO date');
+    if (merged.status === 'scheduled' && !merged.publishedAt) throw new HttpError(400, 'Scheduled articles need a "publishedAt" time');
+
+    const requested = patch.slug?.trim().toLowerCase();
+    if (requested && !SLUG_RE.test(requested)) throw new HttpError(400, '"slug" may only contain lowercase letters, digits and single dashes');
+    if (requested && RESERVED_SLUGS.includes(requested)) throw new HttpError(400, `"${requested}" cannot be used as a slug`);
+    if (requested && store.news.list().some(n => n.slug === requested && n.id !== existing?.id)) throw new HttpError(409, `Another article already uses the slug "${requested}"`);
+
+    return {
+      ...merged,
+      slug: requested || existing?.slug || uniqueSlug(store, slugify(merged.titleEn)),
+      bodyAr: sanitizeArticle(merged.bodyAr),
+      bodyEn: sanitizeArticle(merged.bodyEn),
+      image: merged.image ?? '',
+      // Publishing without a time means "now"; the time is then kept when the article is edited later.
+      publishedAt: merged.publishedAt ? new Date(merged.publishedAt).toISOString() : merged.status === 'published' ? new Date().toISOString() : null,
+      updatedAt: new Date().toISOString(),
+    };
+  };
+
+  router.get('/', (_req, res) => {
+    publishDueNews(store);
+    res.json(store.news.list().filter(n => isLive(n)).sort(newestFirst));
+  });
+
+  router.get('/manage', canManage, (_req, res) => {
+    publishDueNews(store);
+    res.json(store.news.list().sort(newestFirst));
+  });
+
+  router.post('/images', canManage, async (req, res) => {
+    const upload = validate<{ fileName: string, content: string }>(req.body, { fileName: 'string', content: 'string' });
+    res.status(201).json(await saveUpload({ folder: 'news', types: IMAGE_TYPES, maxBytes: MAX_IMAGE_BYTES }, upload));
+  });
+
+  router.get('/:slug', (req: Request<{ slug: string }>, res) => {
+    const item = store.news.list().find(n => n.slug === req.params.slug.toLowerCase());
+    if (!item || !isLive(item)) throw new HttpError(404, 'Not found');
+    res.json(item);
+  });
+
+  router.post('/', canManage, (req, res) => {
+    const article = parseArticle(req.body);
+    res.status(201).json(store.news.create({ ...article, authorName: currentUser(res).name }));
+  });
+
+  router.put('/:id', canManage, async (req: IdRequest, res) => {
+    const existing = findArticle(req.params.id);
+    const updated = store.news.update(existing.id, parseArticle(req.body, existing))!;
+    if (existing.image !== updated.image) await removeUpload(existing.image);
+    res.json(updated);
+  });
+
+  router.delete('/:id', canManage, async (req: IdRequest, res) => {
+    const existing = findArticle(req.params.id);
+    store.news.remove(existing.id);
+    await removeUpload(existing.image);
+    res.status(204).end();
+  });
+
+  return router;
+};
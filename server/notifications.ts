@@ -0,0 +1,121 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Language, NotificationChannel, ReportStatus, ViolationReport } from '../types';
+
+export interface Notification {
+  channel: NotificationChannel;
+  to: string;
+  text: string;
+}
+
+export interface NotificationProvider {
+  name: string;
+  channels: NotificationChannel[];
+  send(notification: Notification): Promise<void>;
+}
+
+const ALL_CHANNELS: NotificationChannel[] = ['sms', 'whatsapp', 'email'];
+
+/** Development stand-in: prints what would have been sent. */
+export const consoleProvider: NotificationProvider = {
+  name: 'console',
+  channels: ALL_CHANNELS,
+  send: async ({ channel, to, text }) => {
+    console.log(`[notify:${channel}] to ${to}: ${text}`);
+  },
+};
+
+/** Development stand-in that appends one JSON line per message, handy for checking what citizens got. */
+export const fileProvider = (file: string): NotificationProvider => ({
+  name: 'file',
+  channels: ALL_CHANNELS,
+  send: async notification => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.appendFile(file, JSON.stringify({ ...notification, sentAt: new Date().toISOString() }) + '\n');
+  },
+});
+
+/** SMS and WhatsApp through Twilio's REST API. `whatsappFrom` is the approved WhatsApp sender, if any. */
+export const twilioProvider = ({ accountSid, authToken, from, whatsappFrom }: { accountSid: string, authToken: string, from: string, whatsappFrom?: string }): NotificationProvider => ({
+  name: 'twilio',
+  channels: whatsappFrom ? ['sms', 'whatsapp'] : ['sms'],
+  send: async ({ channel, to, text }) => {
+    const whatsapp = channel === 'whatsapp';
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: { Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}` },
+      body: new URLSearchParams({
+        From: whatsapp ? `whatsapp:${whatsappFrom}` : from,
+        To: whatsapp ? `whatsapp:${to}` : to,
+        Body: text,
+      }),
+    });
+    if (!response.ok) throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+  },
+});
+
+/** Posts `{ channel, to, text }` as JSON to a relay (mail gateway, in-house SMS bridge, ...). */
+export const webhookProvider = (url: string, channels = ALL_CHANNELS): NotificationProvider => ({
+  name: 'webhook',
+  channels,
+  send: async notification => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(notification) });
+    if (!response.ok) throw new Error(`Notification webhook responded ${response.status}`);
+  },
+});
+
+/** Sends each message through the first provider that handles its channel. */
+export const routeNotifications = (providers: NotificationProvider[]): NotificationProvider => ({
+  name: providers.map(p => p.name).join('+'),
+  channels: [...new Set(providers.flatMap(p => p.channels))],
+  send: async notification => {
+    const provider = providers.find(p => p.channels.includes(notification.channel));
+    if (!provider) throw new Error(`No notification provider for "${notification.channel}"`);
+    await provider.send(notification);
+  },
+});
+
+/**
+ * Twilio for SMS/WhatsApp when `TWILIO_ACCOUNT_SID` is set, `NOTIFY_WEBHOOK_URL` for whatever is
+ * left (usually email), and the console (or `NOTIFY_FILE`) stand-in for the rest.
+ */
+export const createNotificationProvider = (env = process.env): NotificationProvider => {
+  const providers: NotificationProvider[] = [];
+  if (env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM) {
+    providers.push(twilioProvider({ accountSid: env.TWILIO_ACCOUNT_SID, authToken: env.TWILIO_AUTH_TOKEN, from: env.TWILIO_FROM, whatsappFrom: env.TWILIO_WHATSAPP_FROM }));
+  }
+  if (env.NOTIFY_WEBHOOK_URL) providers.push(webhookProvider(env.NOTIFY_WEBHOOK_URL));
+  providers.push(env.NOTIFY_FILE ? fileProvider(env.NOTIFY_FILE) : consoleProvider);
+  return routeNotifications(providers);
+};
+
+const STATUS_TEXT: Record<Language, Record<ReportStatus, string>> = {
+  ar: { pending: 'قيد الانتظار', reviewed: 'قيد المراجعة', resolved: 'تمت معالجته' },
+  en: { pending: 'pending', reviewed: 'under review', resolved: 'resolved' },
+};
+
+const trackingUrl = (id: string) => `${(process.env.PUBLIC_URL || 'http://localhost:5173').replace(/\/$/, '')}/#/track/${encodeURIComponent(id)}`;
+
+const messageFor = (report: ViolationReport, language: Language, status?: ReportStatus) => {
+  const url = trackingUrl(report.id);
+  if (language === 'ar') {
+    return status
+      ? `جمعية حماية المستهلك - تعز: بلاغك رقم ${report.id} أصبح ${STATUS_TEXT.ar[status]}. التفاصيل: ${url}`
+      : `جمعية حماية المستهلك - تعز: استلمنا بلاغك. رقم التتبع ${report.id}. تابع حالته: ${url}`;
+  }
+  return status
+    ? `Consumer Protection Association Taiz: your report ${report.id} is now ${STATUS_TEXT.en[status]}. Details: ${url}`
+    : `Consumer Protection Association Taiz: we received your report. Ticket ${report.id}. Track it at ${url}`;
+};
+
+/**
+ * Tells the citizen about a new ticket (no `status`) or a status change, if they left a contact.
+ * Never throws: a failed message is logged and must not fail the request that triggered it.
+ */
+export const notifyReporter = (provider: NotificationProvider, report: ViolationReport, status?: ReportStatus) => {
+  const contact = report.contact;
+  if (!contact) return;
+  provider.send({ channel: contact.channel, to: contact.address, text: messageFor(report, contact.language, status) }).catch(error => {
+    console.error(`Notifying ${contact.channel} for report ${report.id} via "${provider.name}" failed:`, error);
+  });
+};
@@ -0,0 +1,198 @@
+import ExcelJS from 'exceljs';
+import type { PriceImportChange, PriceImportIssue, PriceImportResult, PriceListField, PriceListMapping, Product } from '../types';
+import { toCsv } from './csv';
+import { HttpError } from './errors';
+import type { Store } from './store';
+
+export const PRICE_LIST_FIELDS: PriceListField[] = ['code', 'nameEn', 'nameAr', 'category', 'unit', 'price'];
+
+const EXPORT_HEADERS: Record<PriceListField | 'lastUpdated', string> = {
+  code: 'Code', nameEn: 'Name (English)', nameAr: 'Name (Arabic)', category: 'Category', unit: 'Unit', price: 'Price (YR)', lastUpdated: 'Effective Since',
+};
+
+/** Header spellings recognised when suggesting a mapping, compared after lowercasing and stripping punctuation. */
+const HEADER_ALIASES: Record<PriceListField, string[]> = {
+  code: ['code', 'barcode', 'sku', 'productcode', 'الرمز', 'الباركود', 'الكود'],
+  nameEn: ['nameenglish', 'nameen', 'name', 'englishname', 'product', 'productname'],
+  nameAr: ['namearabic', 'namear', 'arabicname', 'الاسم', 'اسمالمنتج', 'المنتج'],
+  category: ['category', 'الفئة', 'التصنيف'],
+  unit: ['unit', 'الوحدة'],
+  price: ['priceyr', 'price', 'officialprice', 'السعر', 'السعرالرسمي'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-().]/g, '');
+
+type Sheet = { headers: string[], rows: string[][] };
+
+/** RFC 4180 CSV with either comma or semicolon separators (Excel uses `;` in some locales). */
+const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const separator = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === separator) { row.push(cell); cell = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+};
+
+const parseXlsx = async (content: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content as unknown as ArrayBuffer);
+  } catch {
+    throw new HttpError(400, 'The file is not a readable XLSX workbook');
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  // Keep empty rows so that row numbers in issues match the spreadsheet.
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    rows.push(Array.from({ length: row.cellCount }, (_, c) => row.getCell(c + 1).text));
+  }
+  return rows;
+};
+
+export const readSheet = async (fileName: string, content: Buffer): Promise<Sheet> => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let rows: string[][];
+  if (extension === 'csv') rows = parseCsv(content.toString('utf8'));
+  else if (extension === 'xlsx') rows = await parseXlsx(content);
+  else throw new HttpError(400, 'Only .csv and .xlsx files are supported');
+  const [headers = [], ...body] = rows;
+  if (!headers.some(h => h.trim())) throw new HttpError(400, 'The first row must contain column headers');
+  return { headers: headers.map(h => h.trim()), rows: body };
+};
+
+export const suggestMapping = (headers: string[]): PriceListMapping => {
+  const mapping: PriceListMapping = {};
+  for (const field of PRICE_LIST_FIELDS) {
+    const header = HEADER_ALIASES[field].map(alias => headers.find(h => normalizeHeader(h) === alias)).find(Boolean);
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+};
+
+/** Accepts "1,200", "1 200" and Arabic-Indic digits, which is how prices usually arrive from the field offices. */
+const parsePrice = (value: string) => {
+  const normalized = value
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\s,٬]/g, '')
+    .replace('٫', '.');
+  return /^\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+export type PriceListRow = { row: number, productId?: number, values: Partial<Pick<Product, PriceListField>> };
+
+/**
+ * Validates a mapped sheet and diffs it against the current products. Rows are matched on `code`;
+ * existing products absent from the sheet are reported but never removed.
+ */
+export const diffPriceList = (store: Store, sheet: Sheet, mapping: PriceListMapping) => {
+  const errors: PriceImportIssue[] = [];
+  const changes: PriceImportChange[] = [];
+  const rows: PriceListRow[] = [];
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && !sheet.headers.includes(header)) errors.push({ row: 1, field: field as PriceListField, message: `Column "${header}" is not in the sheet` });
+  }
+  if (!mapping.code) errors.push({ row: 1, field: 'code', message: 'Map a column to the product code' });
+  if (!mapping.price) errors.push({ row: 1, field: 'price', message: 'Map a column to the price' });
+  if (errors.length) return { errors, changes, rows, missing: [] };
+
+  const products = store.products.list();
+  const byCode = new Map(products.map(p => [p.code, p]));
+  const categories = new Set(products.map(p => p.category));
+  const firstRowOf = new Map<string, number>();
+  const cell = (cells: string[], field: PriceListField) => {
+    const header = mapping[field];
+    return header ? (cells[sheet.headers.indexOf(header)] ?? '').trim() : '';
+  };
+
+  sheet.rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(c => !c.trim())) return;
+    const code = cell(cells, 'code');
+    if (!code) {
+      errors.push({ row, field: 'code', message: 'Missing product code' });
+      return;
+    }
+    const duplicateOf = firstRowOf.get(code);
+    if (duplicateOf) {
+      errors.push({ row, field: 'code', message: `Duplicate code ${code} (first seen on row ${duplicateOf})` });
+      return;
+    }
+    firstRowOf.set(code, row);
+
+    const existing = byCode.get(code);
+    const values: PriceListRow['values'] = { code };
+    let valid = true;
+    const rawPrice = cell(cells, 'price');
+    const price = parsePrice(rawPrice);
+    if (!(price > 0)) {
+      errors.push({ row, field: 'price', message: rawPrice ? `"${rawPrice}" is not a valid price` : 'Missing price' });
+      valid = false;
+    } else values.price = price;
+    for (const field of ['nameEn', 'nameAr', 'category', 'unit'] as const) {
+      const value = cell(cells, field);
+      if (value) values[field] = value;
+      else if (!existing) {
+        errors.push({ row, field, message: `New product ${code} needs a ${field}` });
+        valid = false;
+      }
+    }
+    if (values.category && !categories.has(values.category)) {
+      errors.push({ row, field: 'category', message: `Unknown category "${values.category}"` });
+      valid = false;
+    }
+    if (!valid) return;
+
+    rows.push({ row, productId: existing?.id, values });
+    const fieldChanges = PRICE_LIST_FIELDS
+      .filter(field => field !== 'code' && values[field] !== undefined && (!existing || existing[field] !== values[field]))
+      .map(field => ({ field, from: existing?.[field], to: values[field]! }));
+    changes.push({ row, code, productId: existing?.id, kind: !existing ? 'added' : fieldChanges.length ? 'changed' : 'unchanged', changes: fieldChanges });
+  });
+
+  const missing = products.filter(p => !firstRowOf.has(p.code)).map(p => p.code);
+  return { errors, changes, rows, missing };
+};
+
+export const toResult = (sheet: Sheet, mapping: PriceListMapping, diff: ReturnType<typeof diffPriceList>, committed: boolean): PriceImportResult => ({
+  headers: sheet.headers, mapping, errors: diff.errors, changes: diff.changes, missing: diff.missing, committed,
+});
+
+const exportRows = (products: Product[]) => [...products]
+  .sort((a, b) => a.category.localeCompare(b.category) || a.nameEn.localeCompare(b.nameEn))
+  .map(p => [p.code, p.nameEn, p.nameAr, p.category, p.unit, p.price, p.lastUpdated]);
+
+export const exportCsv = (products: Product[]) => toCsv([Object.values(EXPORT_HEADERS), ...exportRows(products)]);
+
+export const exportXlsx = async (products: Product[]) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Consumer Protection Association - Taiz';
+  const sheet = workbook.addWorksheet('Price List', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = Object.entries(EXPORT_HEADERS).map(([key, header]) => ({ key, header, width: key.startsWith('name') ? 32 : 16 }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(exportRows(products));
+  sheet.getColumn('price').numFmt = '#,##0';
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
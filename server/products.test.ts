@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { PriceRevision, Product } from '../types';
+import { priceOn, productsRouter } from './products';
+import { startApi } from './testing';
+
+type NewProduct = Omit<Product, 'id'>;
+
+const product = (code: string, price: number): NewProduct => ({
+  code, nameAr: code, nameEn: code, price, unit: 'kg', lastUpdated: '2025-01-01', category: 'Grains',
+});
+
+describe('products', () => {
+  let api: Awaited<ReturnType<typeof startApi>>;
+
+  before(async () => {
+    api = await startApi(store => ({ '/products': productsRouter(store) }));
+  });
+
+  after(() => api.close());
+
+  it('deletes the price history with the product and never hands its id to a new one', async () => {
+    const first = (await api.request<Product>('/products', 'POST', product('OLD', 1000))).body;
+    await api.request('/products/' + first.id + '/revisions', 'POST', { price: 1200, effectiveDate: '2025-02-01', source: 'Decree 1' });
+    await api.request('/products/' + first.id + '/revisions', 'POST', { price: 5000, effectiveDate: '2999-01-01', source: 'Decree 2' });
+
+    assert.equal((await api.request('/products/' + first.id, 'DELETE')).status, 204);
+    assert.equal(api.store.priceRevisions.list().filter(r => r.productId === first.id).length, 0);
+
+    const second = (await api.request<Product>('/products', 'POST', product('NEW', 800))).body;
+    assert.notEqual(second.id, first.id);
+    const history = (await api.request<PriceRevision[]>(`/products/${second.id}/revisions`)).body;
+    assert.deepEqual(history.map(r => [r.price, r.effectiveDate, r.source]), [[800, '2025-01-01', 'Initial listing']]);
+    assert.equal(priceOn(api.store, 'NEW', '2999-06-01'), 800);
+  });
+
+  it('answers 404 for a product that does not exist', async () => {
+    assert.equal((await api.request('/products/999', 'DELETE')).status, 404);
+  });
+});
@@ -0,0 +1,154 @@
+import { Router, type Request } from 'express';
+import type { PriceListMapping, PriceRevision, Product } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import { diffPriceList, exportCsv, exportXlsx, readSheet, suggestMapping, toResult } from './priceList';
+import { crudRouter } from './routes';
+import type { Store } from './store';
+import { schemas, validate } from './validation';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const revisionsOf = (store: Store, productId: number) => store.priceRevisions.list()
+  .filter(r => r.productId === productId)
+  .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate) || a.id - b.id);
+
+/** The revision in force on `date` (YYYY-MM-DD or ISO timestamp): the latest one that took effect on or before it. */
+export const revisionOn = (store: Store, productId: number, date: string) =>
+  revisionsOf(store, productId).filter(r => r.effectiveDate <= date.slice(0, 10)).pop();
+
+/** Official price of the product with `code` on `date`, falling back to its listed price. */
+export const priceOn = (store: Store, code: string, date: string) => {
+  const product = store.products.list().find(p => p.code === code);
+  if (!product) return undefined;
+  return revisionOn(store, product.id, date)?.price ?? product.price;
+};
+
+export const recordInitialPrice = (store: Store, product: Product) => {
+  store.priceRevisions.create({
+    productId: product.id, price: product.price, effectiveDate: product.lastUpdated, source: 'Initial listing', createdAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Keeps `Product.price`/`lastUpdated` in sync with the revision in force today, so revisions
+ * scheduled for a future date go live on their own. Cheap enough to run on every change and hourly.
+ */
+export const refreshCurrentPrices = (store: Store) => {
+  for (const product of store.products.list()) {
+    const current = revisionOn(store, product.id, today());
+    if (current && (current.price !== product.price || current.effectiveDate !== product.lastUpdated)) {
+      store.products.update(product.id, { price: current.price, lastUpdated: current.effectiveDate });
+    }
+  }
+};
+
+export const productsRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'products:manage');
+
+  const findProduct = (id: string) => {
+    const product = store.products.get(id);
+    if (!product) throw new HttpError(404, 'Not found');
+    return product;
+  };
+
+  router.get('/export', async (req, res) => {
+    const format = req.query.format === 'csv' ? 'csv' : 'xlsx';
+    const fileName = `price-list-${today()}.${format}`;
+    res.attachment(fileName);
+    if (format === 'csv') res.type('text/csv; charset=utf-8').send(exportCsv(store.products.list()));
+    else res.send(await exportXlsx(store.products.list()));
+  });
+
+  // Previews a CSV/XLSX price sheet against the current products; with `commit: true` and no
+  // validation errors it applies the diff, turning price changes into dated revisions.
+  router.post('/import', canManage, async (req, res) => {
+    const body = validate<{ fileName: string, content: string, mapping?: PriceListMapping, effectiveDate?: string, source?: string, commit?: boolean }>(
+      req.body, { fileName: 'string', content: 'string', mapping: 'object?', effectiveDate: 'string?', source: 'string?', commit: 'boolean?' },
+    );
+    const sheet = await readSheet(body.fileName, Buffer.from(body.content, 'base64'));
+    const mapping = body.mapping ?? suggestMapping(sheet.headers);
+    const diff = diffPriceList(store, sheet, mapping);
+    if (!body.commit) {
+      res.json(toResult(sheet, mapping, diff, false));
+      return;
+    }
+    if (diff.errors.length) throw new HttpError(400, 'Fix the errors in the sheet before importing');
+    const effectiveDate = body.effectiveDate ?? today();
+    const source = body.source?.trim();
+    if (!DATE_RE.test(effectiveDate)) throw new HttpError(400, '"effectiveDate" must be a YYYY-MM-DD date');
+    if (!source) throw new HttpError(400, '"source" is required, e.g. the decree number');
+
+    const editor = currentUser(res);
+    const createdAt = new Date().toISOString();
+    store.db.transaction(() => {
+      for (const change of diff.changes) {
+        if (change.kind === 'unchanged') continue;
+        const values = diff.rows.find(r => r.row === change.row)!.values;
+        let productId = change.productId;
+        if (productId === undefined) {
+          productId = store.products.create({ ...values as Omit<Product, 'id' | 'lastUpdated'>, lastUpdated: effectiveDate }).id;
+        } else {
+          const { price: _price, ...fields } = values;
+          store.products.update(productId, fields);
+          if (!change.changes.some(c => c.field === 'price')) continue;
+        }
+        store.priceRevisions.create({
+          productId, price: values.price!, effectiveDate, source, editorId: editor.id, editorName: editor.name, createdAt,
+        });
+      }
+    })();
+    refreshCurrentPrices(store);
+    res.json(toResult(sheet, mapping, diff, true));
+  });
+
+  router.get('/:id/revisions', (req: Request<{ id: string }>, res) => {
+    res.json(revisionsOf(store, findProduct(req.params.id).id));
+  });
+
+  router.post('/:id/revisions', canManage, (req: Request<{ id: string }>, res) => {
+    const product = findProduct(req.params.id);
+    const { price, effectiveDate, source } = validate<Pick<PriceRevision, 'price' | 'effectiveDate' | 'source'>>(
+      req.body, { price: 'number', effectiveDate: 'string', source: 'string' },
+    );
+    if (price <= 0) throw new HttpError(400, '"price" must be positive');
+    if (!DATE_RE.test(effectiveDate)) throw new HttpError(400, '"effectiveDate" must be a YYYY-MM-DD date');
+    if (!source.trim()) throw new HttpError(400, '"source" is required, e.g. the decree number');
+    const editor = currentUser(res);
+    const revision = store.priceRevisions.create({
+      productId: product.id, price, effectiveDate, source: source.trim(),
+      editorId: editor.id, editorName: editor.name, createdAt: new Date().toISOString(),
+    });
+    refreshCurrentPrices(store);
+    res.status(201).json({ revision, product: store.products.get(product.id) });
+  });
+
+  // Prices only change through revisions so that every change carries a date and a source.
+  router.put('/:id', canManage, (req, _res, next) => {
+    if (req.body && typeof req.body === 'object' && 'price' in req.body) {
+      throw new HttpError(400, 'Change prices by adding a price revision');
+    }
+    next();
+  });
+
+  // The revisions go too: they are keyed by product id and would otherwise describe nothing.
+  router.delete('/:id', canManage, (req: Request<{ id: string }>, res) => {
+    const product = findProduct(req.params.id);
+    store.db.transaction(() => {
+      revisionsOf(store, product.id).forEach(revision => store.priceRevisions.remove(revision.id));
+      store.products.remove(product.id);
+    })();
+    res.status(204).end();
+  });
+
+  router.use(crudRouter(store.products, schemas.product, { create: canManage, update: canManage, remove: canManage }, {
+    afterSave: (product, previous) => {
+      if (!previous) recordInitialPrice(store, product);
+    },
+  }));
+
+  return router;
+};
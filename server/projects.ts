@@ -0,0 +1,167 @@
+import { randomUUID } from 'node:crypto';
+import { Router, type Request, type RequestHandler, type Response } from 'express';
+import { can } from '../permissions';
+import type { Project, ProjectExpense, ProjectSummary } from '../types';
+import { currentUser, requireAuth, requirePermission } from './auth';
+import { HttpError } from './errors';
+import { renderImpactReport } from './impactReport';
+import { monthlyCounts, summarizeReports } from './reportStats';
+import type { Store } from './store';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export interface Period {
+  from: string;
+  to: string;
+}
+
+/** The requested period narrowed to the project's own dates, never running past today. */
+const clampPeriod = (project: Project, period?: Partial<Period>): Period => ({
+  from: [period?.from ?? project.startDate, project.startDate].sort()[1],
+  to: [period?.to ?? today(), project.endDate ?? today(), today()].sort()[0],
+});
+
+/** Reports that count towards the project: inside the period and, where set, its categories and districts. */
+export const projectReports = (store: Store, project: Project, { from, to }: Period) => {
+  const categoryOf = new Map(store.products.list().map(p => [p.code, p.category]));
+  const districtOf = new Map(store.shops.list().map(s => [s.id, s.district]));
+  return store.reports.list().filter(r => {
+    const day = r.timestamp.slice(0, 10);
+    if (day < from || day > to) return false;
+    if (project.categories.length && !project.categories.includes(categoryOf.get(r.productCode ?? '') ?? '')) return false;
+    if (project.districts.length && !project.districts.includes(r.shopId != null ? districtOf.get(r.shopId) ?? '' : '')) return false;
+    return true;
+  });
+};
+
+export const summarizeProject = (store: Store, project: Project, period?: Partial<Period>): ProjectSummary => {
+  const { from, to } = clampPeriod(project, period);
+  const reports = projectReports(store, project, { from, to });
+  return {
+    ...project,
+    spent: project.expenses.filter(e => e.date >= from && e.date <= to).reduce((sum, e) => sum + e.amount, 0),
+    outcomes: summarizeReports(reports),
+    monthly: monthlyCounts(reports, from, to),
+  };
+};
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const projectsRouter = (store: Store) => {
+  const router = Router();
+  const authenticate = requireAuth(store);
+  const canManage = requirePermission(store, 'projects:manage');
+
+  /** Managers see every project, donors only the ones they fund; nobody else gets in. */
+  const visibleProjects = (res: Response) => {
+    const user = currentUser(res);
+    if (can(user, 'projects:manage')) return store.projects.list();
+    if (can(user, 'donor:portal')) return store.projects.list().filter(p => p.donorIds.includes(user.id));
+    throw new HttpError(403, 'You do not have permission to perform this action');
+  };
+
+  // 404 rather than 403 for other donors' projects, so ids do not reveal what exists.
+  const findVisible = (res: Response, id: string) => {
+    const project = visibleProjects(res).find(p => String(p.id) === id);
+    if (!project) throw new HttpError(404, 'Not found');
+    return project;
+  };
+
+  const findProject = (id: string) => {
+    const project = store.projects.get(id);
+    if (!project) throw new HttpError(404, 'Not found');
+    return project;
+  };
+
+  const parsePeriod = (req: Request, project: Project): Period => {
+    const { from, to } = req.query;
+    for (const value of [from, to]) {
+      if (value !== undefined && (typeof value !== 'string' || !DATE_RE.test(value))) throw new HttpError(400, '"from" and "to" must be YYYY-MM-DD dates');
+    }
+    const period = clampPeriod(project, { from: from as string | undefined, to: to as string | undefined });
+    if (period.from > period.to) throw new HttpError(400, 'The period does not overlap the project');
+    return period;
+  };
+
+  router.get('/', authenticate, (_req, res) => {
+    res.json(visibleProjects(res).map(p => summarizeProject(store, p)));
+  });
+
+  router.get('/:id', authenticate, (req: IdRequest, res) => {
+    const project = findVisible(res, req.params.id);
+    res.json(summarizeProject(store, project, parsePeriod(req, project)));
+  });
+
+  router.get('/:id/report', authenticate, (req: IdRequest, res) => {
+    const project = findVisible(res, req.params.id);
+    const period = parsePeriod(req, project);
+    const donors = project.donorIds.map(id => store.users.get(id)?.name).filter((n): n is string => !!n);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="impact-report-${project.id}-${period.from}-to-${period.to}.pdf"`);
+    renderImpactReport(res, { summary: summarizeProject(store, project, period), period, donors });
+  });
+
+  // Body checks the generic schema cannot express: donor ids must be donor accounts, dates real dates.
+  const parseProject = (body: unknown, partial: boolean) => {
+    const project = validate<Partial<Project>>(body, schemas.project, partial);
+    for (const field of ['categories', 'districts', 'donorIds'] as const) {
+      if (project[field] !== undefined && !isStringList(project[field])) throw new HttpError(400, `"${field}" must be a list of strings`);
+    }
+    if (project.donorIds?.some(id => store.users.get(id)?.role !== 'donor')) throw new HttpError(400, '"donorIds" must only contain donor accounts');
+    if (project.startDate !== undefined && !DATE_RE.test(project.startDate)) throw new HttpError(400, '"startDate" must be a YYYY-MM-DD date');
+    if (project.endDate && !DATE_RE.test(project.endDate)) throw new HttpError(400, '"endDate" must be a YYYY-MM-DD date');
+    if (project.budget !== undefined && project.budget < 0) throw new HttpError(400, '"budget" must not be negative');
+    if (project.currency !== undefined) {
+      project.currency = project.currency.trim().toUpperCase();
+      if (!/^[A-Z]{3}$/.test(project.currency)) throw new HttpError(400, '"currency" must be a three-letter ISO code');
+    }
+    return project;
+  };
+
+  router.post('/', canManage, (req, res) => {
+    const project = parseProject(req.body, false) as Omit<Project, 'id'>;
+    const created = store.projects.create({
+      ...project, endDate: project.endDate || null, categories: project.categories ?? [], districts: project.districts ?? [], expenses: [],
+    });
+    res.status(201).json(summarizeProject(store, created));
+  });
+
+  router.put('/:id', canManage, (req: IdRequest, res) => {
+    findProject(req.params.id);
+    const patch = parseProject(req.body, true);
+    res.json(summarizeProject(store, store.projects.update(req.params.id, { ...patch, ...(patch.endDate === '' ? { endDate: null } : {}) })!));
+  });
+
+  router.delete('/:id', canManage, (req: IdRequest, res) => {
+    if (!store.projects.remove(req.params.id)) throw new HttpError(404, 'Not found');
+    res.status(204).end();
+  });
+
+  const checkExpense: RequestHandler = (req, _res, next) => {
+    const expense = validate<Omit<ProjectExpense, 'id'>>(req.body, { date: 'string', description: 'string', amount: 'number' });
+    if (!DATE_RE.test(expense.date)) throw new HttpError(400, '"date" must be a YYYY-MM-DD date');
+    if (expense.amount <= 0) throw new HttpError(400, '"amount" must be positive');
+    if (!expense.description.trim()) throw new HttpError(400, '"description" must not be empty');
+    next();
+  };
+
+  router.post('/:id/expenses', canManage, checkExpense, (req: IdRequest, res) => {
+    const project = findProject(req.params.id);
+    const { date, description, amount } = req.body as Omit<ProjectExpense, 'id'>;
+    const expenses = [...project.expenses, { id: randomUUID(), date, description: description.trim(), amount }].sort((a, b) => a.date.localeCompare(b.date));
+    res.status(201).json(summarizeProject(store, store.projects.update(project.id, { expenses })!));
+  });
+
+  router.delete('/:id/expenses/:expenseId', canManage, (req: Request<{ id: string, expenseId: string }>, res) => {
+    const project = findProject(req.params.id);
+    if (!project.expenses.some(e => e.id === req.params.expenseId)) throw new HttpError(404, 'Not found');
+    res.json(summarizeProject(store, store.projects.update(project.id, { expenses: project.expenses.filter(e => e.id !== req.params.expenseId) })!));
+  });
+
+  return router;
+};
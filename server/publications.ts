@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import ExcelJS from 'exceljs';
+import express, { Router, type Request } from 'express';
+import type { Publication, PublicationSearchResult } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import type { StoredPublication, StoredPublicationVersion, Store } from './store';
+import { checkUpload, FILE_TYPES, privateUploadPath, removePrivateUpload, writeUpload, type FileExtension } from './uploads';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+type VersionRequest = Request<{ id: string, version: string }>;
+
+const FOLDER = 'publications';
+const TYPES: FileExtension[] = ['pdf', 'xlsx'];
+const MAX_FILE_BYTES = 30 * 1024 * 1024;
+const MAX_HITS = 5;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 120;
+
+// pdfjs draws text with the 14 standard PDF fonts shipped in its package; it warns on every
+// page when it cannot find them.
+const STANDARD_FONTS = path.join(path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+/** Page count and the text of each page. pdfjs is large, so it is only loaded once a PDF arrives. */
+const readPdf = async (bytes: Buffer) => {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(bytes), standardFontDataUrl: STANDARD_FONTS, isEvalSupported: false, verbosity: 0 }).promise;
+  } catch {
+    throw new HttpError(400, 'The PDF could not be read; password-protected files are not supported');
+  }
+  try {
+    const text: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const content = await (await pdf.getPage(n)).getTextContent();
+      text.push(content.items.map(item => 'str' in item ? item.str : '').join(' ').replace(/\s+/g, ' ').trim());
+    }
+    return { pages: pdf.numPages, text };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const checkWorkbook = async (bytes: Buffer) => {
+  try {
+    await new ExcelJS.Workbook().xlsx.load(bytes as unknown as ArrayBuffer);
+  } catch {
+    throw new HttpError(400, 'The file is not a readable XLSX workbook');
+  }
+};
+
+/** Case, Arabic diacritics and tatweel, hamza forms, alef maqsura, taa marbuta, Arabic-Indic digits and runs of whitespace. */
+const foldChar = (char: string) => {
+  if (/[\u064B-\u065F\u0670\u0640]/.test(char)) return '';
+  if (/\s/.test(char)) return ' ';
+  if (/[\u0660-\u0669]/.test(char)) return String(char.charCodeAt(0) - 0x0660);
+  return char.toLowerCase()[0].replace(/[أإآٱ]/, 'ا').replace('ؤ', 'و').replace(/[ئى]/, 'ي').replace('ة', 'ه');
+};
+
+/** Folded text plus, for every folded character, its offset in `text`, so matches can be cut from the original. */
+const fold = (text: string) => {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = foldChar(text[i]);
+    if (!char || (char === ' ' && folded.endsWith(' '))) continue;
+    folded += char;
+    offsets.push(i);
+  }
+  return { folded, offsets };
+};
+
+const snippet = (text: string, start: number) => {
+  const from = Math.max(0, start - SNIPPET_BEFORE);
+  const to = Math.min(text.length, start + SNIPPET_AFTER);
+  return `${from > 0 ? '…' : ''}${text.slice(from, to).trim()}${to < text.length ? '…' : ''}`;
+};
+
+const toPublicPublication = ({ versions, ...publication }: StoredPublication): Publication => ({
+  ...publication,
+  versions: versions.map(({ path: _key, text: _text, ...version }) => version),
+  downloads: versions.reduce((sum, version) => sum + version.downloads, 0),
+});
+
+const byUpdated = (a: StoredPublication, b: StoredPublication) => b.updatedAt.localeCompare(a.updatedAt);
+
+export const publicationsRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'content:manage');
+
+  const findPublication = (id: string) => {
+    const publication = store.publications.get(id);
+    if (!publication) throw new HttpError(404, 'Not found');
+    return publication;
+  };
+
+  const findVersion = (publication: StoredPublication, version?: string) => {
+    const found = version === undefined ? publication.versions.at(-1) : publication.versions.find(v => v.version === Number(version));
+    if (!found) throw new HttpError(404, 'Not found');
+    return found;
+  };
+
+  const parsePublication = (body: unknown, existing?: StoredPublication) => {
+    const patch = validate<Partial<Publication>>(body, schemas.publication, !!existing);
+    const merged = { descriptionAr: '', descriptionEn: '', ...existing, ...patch };
+    if (!merged.titleAr?.trim() || !merged.titleEn?.trim()) throw new HttpError(400, 'Publications need an Arabic and an English title');
+    return {
+      titleAr: merged.titleAr.trim(), titleEn: merged.titleEn.trim(),
+      descriptionAr: merged.descriptionAr.trim(), descriptionEn: merged.descriptionEn.trim(),
+      updatedAt: new Date().toISOString(),
+    };
+  };
+
+  /** Counts the download, then sends the file under its original name. */
+  const sendVersion = (publication: StoredPublication, version: StoredPublicationVersion, res: express.Response) => {
+    const file = privateUploadPath(version.path);
+    if (!fs.existsSync(file)) throw new HttpError(404, 'The file is missing');
+    store.publications.update(publication.id, {
+      versions: publication.versions.map(v => v.version === version.version ? { ...v, downloads: v.downloads + 1 } : v),
+    });
+    res.download(file, version.fileName);
+  };
+
+  // Only publications with a file are public; the back office also sees ones still waiting for an upload.
+  router.get('/', (_req, res) => {
+    res.json(store.publications.list().filter(p => p.versions.length).sort(byUpdated).map(toPublicPublication));
+  });
+
+  router.get('/manage', canManage, (_req, res) => {
+    res.json(store.publications.list().sort(byUpdated).map(toPublicPublication));
+  });
+
+  /**
+   * Every search word must appear, in the title/description or on one page of the current PDF.
+   * Title matches come first, then documents with the most matching pages.
+   */
+  router.get('/search', (req, res) => {
+    const query = fold(typeof req.query.q === 'string' ? req.query.q : '').folded.trim();
+    if (query.length < 2) throw new HttpError(400, 'Search for at least 2 characters');
+    const words = query.split(' ');
+    const matchesAll = (text: string) => words.every(word => text.includes(word));
+
+    const results = store.publications.list().filter(p => p.versions.length).flatMap((publication): (PublicationSearchResult & { inTitle: boolean })[] => {
+      const { text } = publication.versions.at(-1)!;
+      const hits = text.flatMap((page, index) => {
+        const { folded, offsets } = fold(page);
+        if (!matchesAll(folded)) return [];
+        return [{ page: index + 1, snippet: snippet(page, offsets[folded.indexOf(words[0])]) }];
+      });
+      const inTitle = matchesAll(fold([publication.titleAr, publication.titleEn, publication.descriptionAr, publication.descriptionEn].join(' ')).folded);
+      return inTitle || hits.length ? [{ publication: toPublicPublication(publication), hits: hits.slice(0, MAX_HITS), inTitle }] : [];
+    });
+    results.sort((a, b) => Number(b.inTitle) - Number(a.inTitle) || b.hits.length - a.hits.length);
+    res.json(results.map(({ inTitle: _inTitle, ...result }) => result));
+  });
+
+  router.get('/:id/download', (req: IdRequest, res) => {
+    const publication = findPublication(req.params.id);
+    sendVersion(publication, findVersion(publication), res);
+  });
+
+  router.get('/:id/versions/:version/download', (req: VersionRequest, res) => {
+    const publication = findPublication(req.params.id);
+    sendVersion(publication, findVersion(publication, req.params.version), res);
+  });
+
+  router.post('/', canManage, (req, res) => {
+    res.status(201).json(toPublicPublication(store.publications.create({ ...parsePublication(req.body), versions: [] })));
+  });
+
+  router.put('/:id', canManage, (req: IdRequest, res) => {
+    const existing = findPublication(req.params.id);
+    res.json(toPublicPublication(store.publications.update(existing.id, parsePublication(req.body, existing))!));
+  });
+
+  router.delete('/:id', canManage, async (req: IdRequest, res) => {
+    const publication = findPublication(req.params.id);
+    store.publications.remove(publication.id);
+    await Promise.all(publication.versions.map(v => removePrivateUpload(v.path)));
+    res.status(204).end();
+  });
+
+  /**
+   * Uploads a new current file; earlier versions stay downloadable. The file is the raw request
+   * body (laws and reports can exceed what fits in a JSON body), named by `?fileName=`.
+   */
+  router.post(
+    '/:id/versions', canManage,
+    express.raw({ type: [...TYPES.map(type => FILE_TYPES[type].mimeType), 'application/octet-stream'], limit: MAX_FILE_BYTES }),
+    async (req: IdRequest, res) => {
+      const publication = findPublication(req.params.id);
+      if (!Buffer.isBuffer(req.body)) throw new HttpError(415, 'Send the file as application/pdf or an XLSX workbook');
+      const fileName = path.basename(typeof req.query.fileName === 'string' ? req.query.fileName : '');
+      const extension = checkUpload({ folder: FOLDER, types: TYPES, maxBytes: MAX_FILE_BYTES }, fileName, req.body);
+      const { pages, text } = extension === 'pdf' ? await readPdf(req.body) : (await checkWorkbook(req.body), { pages: null, text: [] });
+
+      const key = await writeUpload({ folder: FOLDER, private: true }, `${randomUUID()}.${extension}`, req.body);
+      const uploadedAt = new Date().toISOString();
+      const version: StoredPublicationVersion = {
+        version: (publication.versions.at(-1)?.version ?? 0) + 1, type: extension === 'pdf' ? 'pdf' : 'excel',
+        fileName, size: req.body.length, pages, note: typeof req.query.note === 'string' ? req.query.note.trim() : '',
+        uploadedAt, uploadedBy: currentUser(res).name, downloads: 0, path: key, text,
+      };
+      const updated = store.publications.update(publication.id, { versions: [...publication.versions, version], updatedAt: uploadedAt })!;
+      res.status(201).json(toPublicPublication(updated));
+    },
+  );
+
+  /** For an upload made by mistake; removing the current version makes the previous one current again. */
+  router.delete('/:id/versions/:version', canManage, async (req: VersionRequest, res) => {
+    const publication = findPublication(req.params.id);
+    const version = findVersion(publication, req.params.version);
+    if (publication.versions.length === 1) throw new HttpError(409, 'This is the only version; delete the publication instead');
+    const updated = store.publications.update(publication.id, { versions: publication.versions.filter(v => v.version !== version.version) })!;
+    await removePrivateUpload(version.path);
+    res.json(toPublicPublication(updated));
+  });
+
+  return router;
+};
@@ -0,0 +1,46 @@
+import type { Request, RequestHandler } from 'express';
+import { HttpError } from './errors';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window, in-memory limit of `max` requests per client IP every `windowMs`, or per
+ * whatever `key` returns for the request (e.g. the account being signed in to). With
+ * `failuresOnly`, a successful response clears the client's count, so only a run of failed
+ * requests (such as wrong passwords) reaches the limit.
+ * Good enough for a single API process; behind nginx it relies on `trust proxy` for the real IP.
+ */
+export const rateLimit = ({ windowMs, max, key = req => req.ip ?? 'unknown', failuresOnly = false }: {
+  windowMs: number, max: number, key?: (req: Request) => string, failuresOnly?: boolean,
+}): RequestHandler => {
+  const windows = new Map<string, Window>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const client = key(req);
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      // Drop expired windows occasionally so the map does not grow without bound.
+      if (windows.size > 10_000) for (const [key, w] of windows) if (w.resetAt <= now) windows.delete(key);
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(client, window);
+    }
+    window.count++;
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      throw new HttpError(429, 'Too many requests, please try again later');
+    }
+    if (failuresOnly) {
+      const counted = window;
+      res.on('finish', () => {
+        if (res.statusCode < 400 && windows.get(client) === counted) windows.delete(client);
+      });
+    }
+    next();
+  };
+};
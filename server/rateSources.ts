@@ -0,0 +1,107 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/** A rate as delivered by a source, before it is checked and recorded. */
+export interface ImportedRate {
+  currency: string;
+  buy: number;
+  sell: number;
+}
+
+/** Where automatic rate updates come from. Swap implementations via env vars, see `createRateImporter`. */
+export interface RateImporter {
+  name: string;
+  fetchRates(): Promise<ImportedRate[]>;
+}
+
+/** The source could not be read or did not contain usable rates. */
+export class RateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateImportError';
+  }
+}
+
+const TIMEOUT_MS = 15_000;
+
+const toRate = (value: unknown): ImportedRate => {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const rate = { currency: String(record.currency ?? '').trim().toUpperCase(), buy: Number(record.buy), sell: Number(record.sell) };
+  if (!/^[A-Z]{3}$/.test(rate.currency) || !(rate.buy > 0) || !(rate.sell > 0)) {
+    throw new RateImportError(`Invalid rate entry: ${JSON.stringify(value)}`);
+  }
+  return rate;
+};
+
+/**
+ * Accepts a JSON array of `{ currency, buy, sell }` (optionally wrapped as `{ rates: [...] }`)
+ * or a CSV with a `currency,buy,sell` header row.
+ */
+export const parseRates = (text: string): ImportedRate[] => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new RateImportError('The rate source is not valid JSON');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { rates?: unknown }).rates;
+    if (!Array.isArray(list)) throw new RateImportError('Expected a list of rates');
+    return list.map(toRate);
+  }
+  const [header, ...lines] = trimmed.split(/\r?\n/).filter(line => line.trim());
+  const columns = (header ?? '').split(/[,;]/).map(c => c.trim().toLowerCase());
+  if (!['currency', 'buy', 'sell'].every(c => columns.includes(c))) throw new RateImportError('CSV rate files need currency, buy and sell columns');
+  return lines.map(line => {
+    const cells = line.split(/[,;]/);
+    return toRate(Object.fromEntries(columns.map((c, i) => [c, cells[i]?.trim()])));
+  });
+};
+
+export const fileImporter = (file: string): RateImporter => ({
+  name: `file:${path.basename(file)}`,
+  fetchRates: async () => {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      throw new RateImportError(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    return parseRates(text);
+  },
+});
+
+export const httpImporter = (url: string, fetchImpl: typeof fetch = fetch): RateImporter => ({
+  name: `http:${new URL(url).host}`,
+  fetchRates: async () => {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { headers: { Accept: 'application/json, text/csv' }, signal: AbortSignal.timeout(TIMEOUT_MS) });
+    } catch (error) {
+      throw new RateImportError(`Could not reach ${url}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) throw new RateImportError(`${url} answered HTTP ${response.status}`);
+    return parseRates(await response.text());
+  },
+});
+
+/** Local development only: nudges the latest stored rates by a few rials so the indicator moves. */
+export const stubImporter = (latest: () => ImportedRate[]): RateImporter => ({
+  name: 'stub',
+  fetchRates: async () => latest().map(rate => {
+    const step = Math.round((Math.random() - 0.5) * 10);
+    return { currency: rate.currency, buy: rate.buy + step, sell: rate.sell + step };
+  }),
+});
+
+/**
+ * `RATES_IMPORT_URL` (JSON or CSV over HTTP), else `RATES_IMPORT_FILE`, else `RATES_IMPORTER=stub`.
+ * Without any of them rates are entered by hand only.
+ */
+export const createRateImporter = (latest: () => ImportedRate[], env = process.env): RateImporter | null => {
+  if (env.RATES_IMPORT_URL) return httpImporter(env.RATES_IMPORT_URL);
+  if (env.RATES_IMPORT_FILE) return fileImporter(path.resolve(env.RATES_IMPORT_FILE));
+  if (env.RATES_IMPORTER === 'stub') return stubImporter(latest);
+  return null;
+};
@@ -0,0 +1,59 @@
+import type { ReportOutcomes, ViolationReport } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When the report was last moved to "resolved", from its audit trail; null if it is not resolved. */
+export const resolvedAt = (report: ViolationReport) => {
+  if (report.status !== 'resolved') return null;
+  const event = [...(report.history ?? [])].reverse().find(e => e.type === 'status' && e.to === 'resolved');
+  return event?.timestamp ?? null;
+};
+
+export const daysToResolve = (report: ViolationReport) => {
+  const at = resolvedAt(report);
+  return at ? Math.max(0, (new Date(at).getTime() - new Date(report.timestamp).getTime()) / DAY_MS) : null;
+};
+
+export const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round1 = (value: number | null) => value === null ? null : Math.round(value * 10) / 10;
+
+export const isOvercharge = (report: ViolationReport) => !!report.officialPrice && report.reportedPrice > report.officialPrice;
+
+export const summarizeReports = (reports: ViolationReport[]): ReportOutcomes => {
+  const resolved = reports.filter(r => r.status === 'resolved');
+  const durations = resolved.map(daysToResolve).filter((d): d is number => d !== null);
+  return {
+    reportsReceived: reports.length,
+    resolved: resolved.length,
+    resolutionRate: reports.length ? Math.round((resolved.length / reports.length) * 1000) / 1000 : null,
+    medianDaysToResolve: round1(median(durations)),
+    overchargeReports: reports.filter(isOvercharge).length,
+    shopsInvolved: new Set(reports.map(r => r.shopId != null ? `shop:${r.shopId}` : r.shopName?.trim().toLowerCase()).filter(Boolean)).size,
+  };
+};
+
+/** Calendar months (YYYY-MM) from `from` to `to` inclusive, so charts show empty months too. */
+export const monthsBetween = (from: string, to: string) => {
+  const months: string[] = [];
+  const cursor = new Date(`${from.slice(0, 7)}-01T00:00:00Z`);
+  const end = to.slice(0, 7);
+  while (cursor.toISOString().slice(0, 7) <= end) {
+    months.push(cursor.toISOString().slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+/** Reports received and reports resolved in each month of the range. */
+export const monthlyCounts = (reports: ViolationReport[], from: string, to: string) =>
+  monthsBetween(from, to).map(month => ({
+    month,
+    received: reports.filter(r => r.timestamp.slice(0, 7) === month).length,
+    resolved: reports.filter(r => resolvedAt(r)?.slice(0, 7) === month).length,
+  }));
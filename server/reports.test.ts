@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { ViolationReport } from '../types';
+import { stubProvider } from './analysis';
+import { consoleProvider } from './notifications';
+import { reportsRouter } from './reports';
+import { startApi } from './testing';
+
+describe('reports', () => {
+  let api: Awaited<ReturnType<typeof startApi>>;
+
+  before(async () => {
+    api = await startApi(store => ({ '/reports': reportsRouter(store, consoleProvider, stubProvider) }));
+    api.store.products.create({ code: 'FLOUR', nameAr: 'دقيق', nameEn: 'Flour', price: 1000, unit: 'kg', lastUpdated: '2025-01-01', category: 'Grains' });
+  });
+
+  after(() => api.close());
+
+  const submit = (report: Partial<ViolationReport>) => api.request<ViolationReport>('/reports', 'POST', {
+    productName: 'Flour', reportedPrice: 1100, description: '', status: 'pending', timestamp: '2025-06-01T10:00:00.000Z', ...report,
+  });
+
+  it('judges a listed product against its recorded price, whatever the client says', async () => {
+    const { status, body } = await submit({ productCode: 'FLOUR', officialPrice: 1 });
+    assert.equal(status, 201);
+    assert.equal(body.officialPrice, 1000);
+    assert.equal(body.aiAnalysis?.severity, 'low');
+  });
+
+  it('leaves a report without a recorded price unverified', async () => {
+    for (const productCode of [undefined, 'UNKNOWN']) {
+      const { status, body } = await submit({ productCode, officialPrice: 1 });
+      assert.equal(status, 201);
+      assert.equal(body.officialPrice, undefined);
+      assert.equal(body.aiAnalysis, undefined);
+    }
+  });
+});
@@ -0,0 +1,281 @@
+import { randomUUID } from 'node:crypto';
+import { Router, type Request, type Response } from 'express';
+import sharp from 'sharp';
+import { REPORT_STATUSES } from '../constants';
+import { can } from '../permissions';
+import { autoMatchShop, isLocation } from '../shopMatching';
+import type { Language, NotificationChannel, ReportContact, ReportEvent, ReportNote, ReportStatus, TrackedReport, ViolationReport } from '../types';
+import { analyzeViolation, parseDataUrl, type AnalysisProvider } from './analysis';
+import { currentUser, requirePermission } from './auth';
+import { priceOn } from './products';
+import { HttpError } from './errors';
+import { notifyReporter, type NotificationProvider } from './notifications';
+import { rateLimit } from './rateLimit';
+import type { Store } from './store';
+import { checkUpload, decodeBase64, IMAGE_TYPES, removeUpload, writeUpload } from './uploads';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+interface CasePatch {
+  status?: ReportStatus;
+  assigneeId?: string | null;
+  shopId?: number | null;
+}
+
+export const createEvent = (res: Response | null, event: Omit<ReportEvent, 'id' | 'timestamp' | 'actorId' | 'actorName'>): ReportEvent => {
+  const actor = res ? currentUser(res) : null;
+  return {
+    id: randomUUID(),
+    actorId: actor?.id,
+    actorName: actor?.name ?? 'Citizen',
+    timestamp: new Date().toISOString(),
+    ...event,
+  };
+};
+
+const EVIDENCE = { folder: 'evidence', types: IMAGE_TYPES, maxBytes: 5 * 1024 * 1024 };
+/** Longest side of a stored evidence photo; the app already sends them at this size. */
+const EVIDENCE_MAX_SIZE = 1600;
+
+/**
+ * Writes an evidence photo sent as a data URL to the uploads folder; reports keep only the URL.
+ * Re-encoding drops EXIF data and shrinks photos from clients that did not downscale them.
+ * Returns the URL and the stored image as a data URL for the analysis.
+ */
+const storeEvidence = async (dataUrl: string) => {
+  const image = parseDataUrl(dataUrl);
+  if (!image) throw new HttpError(400, '"evidenceImage" must be an image data URL');
+  const bytes = decodeBase64(image.data);
+  checkUpload(EVIDENCE, `evidence.${image.mimeType.slice('image/'.length)}`, bytes);
+  let data: Buffer;
+  try {
+    data = await sharp(bytes).rotate()
+      .resize({ width: EVIDENCE_MAX_SIZE, height: EVIDENCE_MAX_SIZE, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 }).toBuffer();
+  } catch {
+    throw new HttpError(400, 'The evidence photo could not be read');
+  }
+  return { url: await writeUpload(EVIDENCE, `${randomUUID()}.webp`, data), dataUrl: `data:image/webp;base64,${data.toString('base64')}` };
+};
+
+/** Moves photos that reports used to carry inline as data URLs into files; unreadable ones are dropped. */
+export const migrateLegacyEvidence = async (store: Store) => {
+  for (const report of store.reports.list()) {
+    if (!report.evidenceImage?.startsWith('data:')) continue;
+    const evidence = await storeEvidence(report.evidenceImage).catch(error => {
+      console.error(`Evidence photo of report ${report.id} could not be stored:`, error);
+      return null;
+    });
+    store.reports.update(report.id, { evidenceImage: evidence?.url });
+  }
+};
+
+const CHANNELS: NotificationChannel[] = ['sms', 'whatsapp', 'email'];
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+/** Phones with a clock running slightly ahead should not have their reports refused. */
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+/** When the citizen saw the price: an ISO timestamp, normalised to UTC, that is not in the future. */
+const parseTimestamp = (value: string) => {
+  const time = Date.parse(value);
+  if (!ISO_TIMESTAMP_RE.test(value) || Number.isNaN(time)) throw new HttpError(400, '"timestamp" must be an ISO date and time');
+  if (time > Date.now() + MAX_CLOCK_SKEW_MS) throw new HttpError(400, '"timestamp" must not be in the future');
+  return new Date(time).toISOString();
+};
+
+const parseContact = (value: unknown): ReportContact => {
+  const contact = validate<ReportContact>(value, { channel: 'string', address: 'string', language: 'string?' });
+  if (!CHANNELS.includes(contact.channel)) throw new HttpError(400, `"channel" must be one of: ${CHANNELS.join(', ')}`);
+  let address = contact.address.trim();
+  if (contact.channel === 'email') {
+    if (!EMAIL_RE.test(address)) throw new HttpError(400, 'Invalid email address');
+  } else {
+    // Keep digits and a leading +; Yemeni numbers are often written with spaces or dashes.
+    address = address.replace(/[\s()-]/g, '');
+    if (!/^\+?\d{7,15}$/.test(address)) throw new HttpError(400, 'Invalid phone number');
+  }
+  return { channel: contact.channel, address, language: contact.language === 'en' ? 'en' : 'ar' };
+};
+
+/** Accepts tickets typed loosely ("cpa 7kq4m9tx"); older time-based tickets are matched as typed. */
+const ticketCandidates = (input: string) => {
+  const typed = input.trim().toUpperCase();
+  const compact = typed.replace(/[^A-Z0-9]/g, '').replace(/^CPA/, '');
+  return compact.length === 8 ? [typed, `CPA-${compact.slice(0, 4)}-${compact.slice(4)}`] : [typed];
+};
+
+const toTracked = (report: ViolationReport): TrackedReport => ({
+  id: report.id,
+  status: report.status,
+  productName: report.productName,
+  submittedAt: report.timestamp,
+  updates: (report.history ?? [])
+    .filter(event => event.type === 'status')
+    .map(event => ({ status: event.to as ReportStatus, timestamp: event.timestamp })),
+});
+
+export const reportsRouter = (store: Store, notifications: NotificationProvider, analysis: AnalysisProvider) => {
+  const router = Router();
+  const canRead = requirePermission(store, 'reports:read');
+  const canManage = requirePermission(store, 'reports:manage');
+
+  const parseCasePatch = (body: unknown): CasePatch => {
+    const { status, assigneeId, shopId } = validate<CasePatch>(body, { status: 'string?', assigneeId: 'string?', shopId: 'number?' });
+    if (status !== undefined && !REPORT_STATUSES.includes(status)) {
+      throw new HttpError(400, `"status" must be one of: ${REPORT_STATUSES.join(', ')}`);
+    }
+    if (assigneeId) {
+      const assignee = store.users.get(assigneeId);
+      if (!assignee || !can(assignee, 'reports:read')) throw new HttpError(400, 'Reports can only be assigned to staff or admin users');
+    }
+    if (shopId != null && !store.shops.get(shopId)) throw new HttpError(400, 'Unknown shop');
+    return { status, assigneeId, shopId };
+  };
+
+  /** Keeps a reviewer-confirmed spelling on the shop so that future reports spelled the same way match it. */
+  const rememberAlias = (shopId: number, name: string) => {
+    const shop = store.shops.get(shopId);
+    if (shop && ![shop.nameAr, shop.nameEn, ...shop.aliases].includes(name)) store.shops.update(shopId, { aliases: [...shop.aliases, name] });
+  };
+
+  /** Applies status/assignment changes and appends one audit event per field that actually changed. */
+  const applyCasePatch = (report: ViolationReport, patch: CasePatch, res: Response) => {
+    const history = [...(report.history ?? [])];
+    const next: Partial<ViolationReport> = {};
+    if (patch.status !== undefined && patch.status !== report.status) {
+      history.push(createEvent(res, { type: 'status', from: report.status, to: patch.status }));
+      next.status = patch.status;
+      notifyReporter(notifications, report, patch.status);
+    }
+    if (patch.assigneeId !== undefined && patch.assigneeId !== (report.assigneeId ?? null)) {
+      const name = (id?: string | null) => id ? store.users.get(id)?.name ?? id : undefined;
+      history.push(createEvent(res, { type: 'assigned', from: name(report.assigneeId), to: name(patch.assigneeId) }));
+      next.assigneeId = patch.assigneeId;
+    }
+    if (patch.shopId !== undefined && patch.shopId !== (report.shopId ?? null)) {
+      const name = (id?: number | null) => id != null ? store.shops.get(id)?.nameEn ?? String(id) : undefined;
+      history.push(createEvent(res, { type: 'shop', from: name(report.shopId), to: name(patch.shopId) }));
+      next.shopId = patch.shopId;
+      if (patch.shopId !== null && report.shopName?.trim()) rememberAlias(patch.shopId, report.shopName.trim());
+    }
+    return Object.keys(next).length ? store.reports.update(report.id, { ...next, history })! : report;
+  };
+
+  const findReport = (id: string) => {
+    const report = store.reports.get(id);
+    if (!report) throw new HttpError(404, 'Not found');
+    return report;
+  };
+
+  router.get('/', canRead, (_req, res) => {
+    res.json(store.reports.list());
+  });
+
+  // Public, but only the status trail; rate limited so ticket numbers cannot be brute-forced.
+  router.get('/track/:id', rateLimit({ windowMs: 60_000, max: 30 }), (req: IdRequest, res) => {
+    const report = ticketCandidates(req.params.id).map(id => store.reports.get(id)).find(Boolean);
+    if (!report) throw new HttpError(404, 'No report with this ticket number');
+    res.json(toTracked(report));
+  });
+
+  router.get('/:id', canRead, (req: IdRequest, res) => {
+    res.json(findReport(req.params.id));
+  });
+
+  const findSubmission = (submissionId?: string | null) =>
+    submissionId ? store.reports.list().find(r => r.submissionId === submissionId) : undefined;
+
+  /**
+   * Public submission: only the citizen's own fields are read; the workflow fields always start
+   * fresh. The assessment is made here, against the official price on record, so that reviewers
+   * never see one computed by the client. Each report may run the model, hence the rate limit;
+   * offline clients retry a 429 later.
+   */
+  router.post('/', rateLimit({ windowMs: 60_000, max: Number(process.env.AI_RATE_LIMIT) || 10 }), async (req, res) => {
+    const body = validate<ViolationReport & { language?: Language }>(req.body, schemas.report);
+    // Offline clients retry until they see a response; a retry of a report that did arrive gets the original back.
+    const existing = findSubmission(body.submissionId);
+    if (existing) {
+      res.status(200).json(existing);
+      return;
+    }
+    if (!(body.reportedPrice > 0)) throw new HttpError(400, '"reportedPrice" must be a positive number');
+    const timestamp = parseTimestamp(body.timestamp);
+    if (body.location != null && !isLocation(body.location)) throw new HttpError(400, '"location" must be { lat, lng } or null');
+    const contact = body.contact ? parseContact(body.contact) : null;
+    // Judge the report against the official price in force when it was observed, not today's. Only
+    // recorded prices count: a report for an unlisted product stays unverified and gets no analysis.
+    const officialPrice = body.productCode ? priceOn(store, body.productCode, timestamp) : undefined;
+    const evidence = body.evidenceImage ? await storeEvidence(body.evidenceImage) : null;
+    const productName = body.productName?.trim();
+    const aiAnalysis = productName && officialPrice ? await analyzeViolation(analysis, {
+      productName, officialPrice, reportedPrice: body.reportedPrice, description: body.description.slice(0, 2000),
+      language: body.language === 'en' ? 'en' : 'ar', evidenceImage: evidence?.dataUrl,
+    }) : undefined;
+
+    // The analysis takes a while; a retry may have been filed in the meantime.
+    const filed = findSubmission(body.submissionId);
+    if (filed) {
+      await removeUpload(evidence?.url);
+      res.status(200).json(filed);
+      return;
+    }
+    const report = store.reports.create({
+      productCode: body.productCode ?? undefined,
+      productName: body.productName ?? undefined,
+      officialPrice,
+      reportedPrice: body.reportedPrice,
+      shopName: body.shopName ?? undefined,
+      location: body.location ? { lat: body.location.lat, lng: body.location.lng } : null,
+      description: body.description,
+      aiAnalysis,
+      timestamp,
+      evidenceImage: evidence?.url,
+      submissionId: body.submissionId ?? undefined,
+      // Only confident matches are linked here; reviewers link the rest from the suggestions.
+      shopId: body.shopName ? autoMatchShop(store.shops.list(), body.shopName, body.location) ?? null : null,
+      contact,
+      status: 'pending',
+      assigneeId: null,
+      notes: [],
+      history: [createEvent(null, { type: 'created' })],
+    });
+    notifyReporter(notifications, report);
+    res.status(201).json(report);
+  });
+
+  router.put('/:id', canManage, (req: IdRequest, res) => {
+    res.json(applyCasePatch(findReport(req.params.id), parseCasePatch(req.body), res));
+  });
+
+  router.post('/bulk', canManage, (req, res) => {
+    const { ids } = validate<{ ids: string[] }>(req.body, { ids: 'object' });
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) throw new HttpError(400, '"ids" must be an array of report ids');
+    const patch = parseCasePatch(req.body);
+    const reports = ids.map(findReport);
+    res.json(store.db.transaction(() => reports.map(report => applyCasePatch(report, patch, res)))());
+  });
+
+  router.post('/:id/notes', canManage, (req: IdRequest, res) => {
+    const { text } = validate<{ text: string }>(req.body, { text: 'string' });
+    if (!text.trim()) throw new HttpError(400, '"text" must not be empty');
+    const report = findReport(req.params.id);
+    const author = currentUser(res);
+    const note: ReportNote = { id: randomUUID(), authorId: author.id, authorName: author.name, text: text.trim(), timestamp: new Date().toISOString() };
+    res.status(201).json(store.reports.update(report.id, {
+      notes: [...(report.notes ?? []), note],
+      history: [...(report.history ?? []), createEvent(res, { type: 'note' })],
+    }));
+  });
+
+  router.delete('/:id', canManage, async (req: IdRequest, res) => {
+    const report = findReport(req.params.id);
+    store.reports.remove(report.id);
+    await removeUpload(report.evidenceImage);
+    res.status(204).end();
+  });
+
+  return router;
+};
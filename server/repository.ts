@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import type { CollectionName, DB } from './db';
+
+type Id = string | number;
+
+export interface Repository<T extends { id: Id }> {
+  list(): T[];
+  get(id: Id): T | undefined;
+  create(item: Omit<T, 'id'> & { id?: T['id'] }): T;
+  update(id: Id, patch: Partial<T>): T | undefined;
+  remove(id: Id): boolean;
+  count(): number;
+}
+
+interface RepositoryOptions {
+  /** Assign auto-incrementing numeric ids (Product, JobOpportunity, ...) instead of strings; deleted ids are never reused. */
+  numericIds?: boolean;
+  /** Custom string id generator, e.g. human readable report tickets. */
+  generateId?: (db: DB) => string;
+  newestFirst?: boolean;
+}
+
+export const createRepository = <T extends { id: Id }>(db: DB, table: CollectionName, options: RepositoryOptions = {}): Repository<T> => {
+  const order = options.newestFirst ? 'DESC' : 'ASC';
+  const selectAll = db.prepare(`SELECT data FROM ${table} ORDER BY rowid ${order}`);
+  const selectOne = db.prepare(`SELECT data FROM ${table} WHERE id = ?`);
+  const insert = db.prepare(`INSERT INTO ${table} (id, data, createdAt, updatedAt) VALUES (?, ?, ?, ?)`);
+  const updateStmt = db.prepare(`UPDATE ${table} SET data = ?, updatedAt = ? WHERE id = ?`);
+  const deleteStmt = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+  const countStmt = db.prepare(`SELECT COUNT(*) AS n FROM ${table}`);
+  const maxId = db.prepare(`SELECT MAX(CAST(id AS INTEGER)) AS n FROM ${table}`);
+  const lastId = db.prepare('SELECT value AS n FROM sequences WHERE name = ?');
+  const saveLastId = db.prepare('INSERT INTO sequences (name, value) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET value = MAX(value, excluded.value)');
+
+  const parse = (row: unknown) => row ? JSON.parse((row as { data: string }).data) as T : undefined;
+
+  // Databases from before the sequence table only have their current highest id to go on.
+  const nextId = (): Id => {
+    if (options.numericIds) {
+      const used = [lastId.get(table), maxId.get()] as ({ n: number | null } | undefined)[];
+      return Math.max(0, ...used.map(row => row?.n ?? 0)) + 1;
+    }
+    return options.generateId ? options.generateId(db) : randomUUID();
+  };
+
+  return {
+    list: () => selectAll.all().map(row => parse(row)!),
+    get: id => parse(selectOne.get(String(id))),
+    create: db.transaction(item => {
+      const record = { ...item, id: item.id ?? nextId() } as T;
+      const now = new Date().toISOString();
+      insert.run(String(record.id), JSON.stringify(record), now, now);
+      if (options.numericIds) saveLastId.run(table, Number(record.id));
+      return record;
+    }),
+    update: (id, patch) => {
+      const existing = parse(selectOne.get(String(id)));
+      if (!existing) return undefined;
+      const record = { ...existing, ...patch, id: existing.id };
+      updateStmt.run(JSON.stringify(record), new Date().toISOString(), String(id));
+      return record;
+    },
+    remove: id => deleteStmt.run(String(id)).changes > 0,
+    count: () => (countStmt.get() as { n: number }).n,
+  };
+};
+
+export const getSetting = <T>(db: DB, key: string): T | undefined => {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) as T : undefined;
+};
+
+export const setSetting = <T>(db: DB, key: string, value: T): T => {
+  db.prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value').run(key, JSON.stringify(value));
+  return value;
+};
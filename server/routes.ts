@@ -0,0 +1,78 @@
+import { Router, type Request, type RequestHandler } from 'express';
+import { HttpError } from './errors';
+import type { Repository } from './repository';
+import { getSetting, setSetting } from './repository';
+import type { DB } from './db';
+import { validate, type Schema } from './validation';
+
+/** Middleware run before each endpoint; endpoints without a guard are public. */
+export interface Access {
+  list?: RequestHandler;
+  read?: RequestHandler;
+  create?: RequestHandler;
+  update?: RequestHandler;
+  remove?: RequestHandler;
+}
+
+const guard = (handler?: RequestHandler) => handler ? [handler] : [];
+
+type IdRequest = Request<{ id: string }>;
+
+export interface Hooks<T> {
+  /** Runs after a create or update has been persisted; `previous` is undefined for creates. */
+  afterSave?: (item: T, previous?: T) => void;
+}
+
+/** Standard list/get/create/update/delete endpoints for a collection. */
+export const crudRouter = <T extends { id: string | number }>(repo: Repository<T>, schema: Schema, access: Access = {}, hooks: Hooks<T> = {}) => {
+  const router = Router();
+
+  router.get('/', ...guard(access.list), (_req, res) => {
+    res.json(repo.list());
+  });
+
+  router.get('/:id', ...guard(access.read), (req: IdRequest, res) => {
+    const item = repo.get(req.params.id);
+    if (!item) throw new HttpError(404, 'Not found');
+    res.json(item);
+  });
+
+  router.post('/', ...guard(access.create), (req, res) => {
+    const item = repo.create(validate<Omit<T, 'id'>>(req.body, schema));
+    hooks.afterSave?.(item);
+    res.status(201).json(item);
+  });
+
+  router.put('/:id', ...guard(access.update), (req: IdRequest, res) => {
+    const previous = repo.get(req.params.id);
+    const item = repo.update(req.params.id, validate<Partial<T>>(req.body, schema, true));
+    if (!item) throw new HttpError(404, 'Not found');
+    hooks.afterSave?.(item, previous);
+    res.json(item);
+  });
+
+  router.delete('/:id', ...guard(access.remove), (req: IdRequest, res) => {
+    if (!repo.remove(req.params.id)) throw new HttpError(404, 'Not found');
+    res.status(204).end();
+  });
+
+  return router;
+};
+
+/** GET/PUT endpoints for a single settings document such as the organization profile. */
+export const settingRouter = (db: DB, key: string, schema: Schema, access: Pick<Access, 'read' | 'update'> = {}) => {
+  const router = Router();
+
+  router.get('/', ...guard(access.read), (_req, res) => {
+    const value = getSetting(db, key);
+    if (!value) throw new HttpError(404, 'Not found');
+    res.json(value);
+  });
+
+  router.put('/', ...guard(access.update), (req, res) => {
+    const current = getSetting<object>(db, key) ?? {};
+    res.json(setSetting(db, key, { ...current, ...validate<object>(req.body, schema, true) }));
+  });
+
+  return router;
+};
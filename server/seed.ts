@@ -0,0 +1,45 @@
+import { randomBytes } from 'node:crypto';
+import { INITIAL_USERS, INITIAL_PRODUCTS, INITIAL_SHOPS, INITIAL_JOBS, NEWS_DATA, INITIAL_MEDIA, INITIAL_PROFILE, INITIAL_PROJECTS, INITIAL_EXCHANGE_RATES, INITIAL_SURVEY_ROUNDS } from '../constants';
+import { hashPassword } from './auth';
+import { migrateLegacyJobs } from './careers';
+import { migrateLegacyMedia } from './media';
+import { migrateLegacyNews } from './news';
+import { recordInitialPrice } from './products';
+import { migrateLegacyEvidence } from './reports';
+import { getSetting, setSetting } from './repository';
+import type { Store } from './store';
+
+/** Populates an empty database with the demo content that used to live in App state. */
+export const seedDatabase = async (store: Store) => {
+  const seed = <T>(repo: { count(): number; create(item: T): unknown }, items: T[]) => {
+    if (repo.count() === 0) items.forEach(item => repo.create(item));
+  };
+
+  store.db.transaction(() => {
+    seed(store.users, INITIAL_USERS);
+    seed(store.products, INITIAL_PRODUCTS);
+    seed(store.shops, INITIAL_SHOPS);
+    seed(store.jobs, INITIAL_JOBS);
+    migrateLegacyJobs(store);
+    seed(store.news, NEWS_DATA);
+    migrateLegacyNews(store);
+    seed(store.media, INITIAL_MEDIA);
+    migrateLegacyMedia(store);
+    seed(store.projects, INITIAL_PROJECTS);
+    seed(store.exchangeRates, INITIAL_EXCHANGE_RATES);
+    seed(store.surveyRounds, INITIAL_SURVEY_ROUNDS);
+    // Start every product's revision history at its current price (also backfills older databases).
+    const tracked = new Set(store.priceRevisions.list().map(r => r.productId));
+    store.products.list().filter(p => !tracked.has(p.id)).forEach(p => recordInitialPrice(store, p));
+    if (!getSetting(store.db, 'profile')) setSetting(store.db, 'profile', INITIAL_PROFILE);
+  })();
+  await migrateLegacyEvidence(store);
+
+  // Accounts without a password (freshly seeded, or created before logins existed) get
+  // SEED_PASSWORD or a random one, printed once so the operator can sign in and change it.
+  for (const user of store.users.list().filter(u => !u.passwordHash)) {
+    const password = process.env.SEED_PASSWORD || randomBytes(9).toString('base64url');
+    store.users.update(user.id, { passwordHash: await hashPassword(password) });
+    console.log(`Initial credentials for "${user.username}": ${password}`);
+  }
+};
@@ -0,0 +1,100 @@
+import { Router, type Request, type RequestHandler } from 'express';
+import { isLocation, matchShops } from '../shopMatching';
+import type { Shop } from '../types';
+import { requirePermission } from './auth';
+import { HttpError } from './errors';
+import { createEvent } from './reports';
+import { crudRouter } from './routes';
+import type { Store } from './store';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+export const shopsRouter = (store: Store) => {
+  const router = Router();
+  const canRead = requirePermission(store, 'reports:read');
+  const canManage = requirePermission(store, 'reports:manage');
+
+  const findShop = (id: string | number) => {
+    const shop = store.shops.get(id);
+    if (!shop) throw new HttpError(404, 'Not found');
+    return shop;
+  };
+
+  router.get('/match', canRead, (req, res) => {
+    const name = String(req.query.name ?? '');
+    const lat = Number(req.query.lat);
+    const lng = Number(req.query.lng);
+    const location = Number.isFinite(lat) && Number.isFinite(lng) && req.query.lat !== undefined ? { lat, lng } : null;
+    res.json(name.trim() ? matchShops(store.shops.list(), name, location) : []);
+  });
+
+  // Folds duplicates into the shop in the URL: their reports, names (kept as aliases) and any
+  // details the target is missing move over, then the duplicates are deleted.
+  router.post('/:id/merge', canManage, (req: IdRequest, res) => {
+    const target = findShop(req.params.id);
+    const { sourceIds } = validate<{ sourceIds: number[] }>(req.body, { sourceIds: 'object' });
+    if (!Array.isArray(sourceIds) || !sourceIds.length || sourceIds.some(id => typeof id !== 'number')) {
+      throw new HttpError(400, '"sourceIds" must be a non-empty array of shop ids');
+    }
+    if (sourceIds.includes(target.id)) throw new HttpError(400, 'A shop cannot be merged into itself');
+    const sources = sourceIds.map(findShop);
+
+    const result = store.db.transaction(() => {
+      const known = new Set([target.nameAr, target.nameEn]);
+      const aliases: string[] = [];
+      for (const name of [...target.aliases, ...sources.flatMap(s => [s.nameAr, s.nameEn, ...s.aliases])]) {
+        if (!name.trim() || known.has(name)) continue;
+        known.add(name);
+        aliases.push(name);
+      }
+      const shop = store.shops.update(target.id, {
+        aliases,
+        district: target.district || sources.find(s => s.district)?.district || '',
+        location: target.location ?? sources.find(s => s.location)?.location ?? null,
+        licenseNumber: target.licenseNumber || sources.find(s => s.licenseNumber)?.licenseNumber,
+      })!;
+      const moved = store.reports.list()
+        .filter(report => report.shopId != null && sourceIds.includes(report.shopId))
+        .map(report => store.reports.update(report.id, {
+          shopId: target.id,
+          history: [...(report.history ?? []), createEvent(res, {
+            type: 'shop', from: sources.find(s => s.id === report.shopId)?.nameEn, to: target.nameEn,
+          })],
+        })!);
+      sources.forEach(source => store.shops.remove(source.id));
+      return { shop, reports: moved };
+    })();
+    res.json(result);
+  });
+
+  router.delete('/:id', canManage, (req: IdRequest, _res, next) => {
+    const shop = findShop(req.params.id);
+    store.db.transaction(() => {
+      store.reports.list().filter(r => r.shopId === shop.id).forEach(r => store.reports.update(r.id, { shopId: null }));
+    })();
+    next();
+  });
+
+  // The generic schema only knows "object"; check the nested shapes and fill defaults for new shops.
+  const checkShopBody: RequestHandler = (req, _res, next) => {
+    const body = req.body as Partial<Shop> | undefined;
+    if (body && typeof body === 'object') {
+      if (body.location !== undefined && body.location !== null && !isLocation(body.location)) throw new HttpError(400, '"location" must be { lat, lng } or null');
+      if (body.aliases !== undefined && (!Array.isArray(body.aliases) || body.aliases.some(a => typeof a !== 'string'))) {
+        throw new HttpError(400, '"aliases" must be an array of names');
+      }
+      if (req.method === 'POST') {
+        body.aliases ??= [];
+        body.location ??= null;
+      }
+    }
+    next();
+  };
+  router.post('/', canManage, checkShopBody);
+  router.put('/:id', canManage, checkShopBody);
+
+  router.use(crudRouter(store.shops, schemas.shop, { list: canRead, read: canRead, create: canManage, update: canManage, remove: canManage }));
+
+  return router;
+};
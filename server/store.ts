@@ -0,0 +1,54 @@
+import { randomInt } from 'node:crypto';
+import type { DB } from './db';
+import { createRepository } from './repository';
+import type { User, Product, PriceRevision, ViolationReport, Shop, JobOpportunity, JobApplication, NewsItem, MediaItem, MediaAlbum, Publication, PublicationVersion, Project, ExchangeRate, SurveyRound, PriceObservation } from '../types';
+
+/** Users as persisted: the password never leaves the server, only its scrypt hash is kept. */
+export type StoredUser = User & { passwordHash?: string };
+
+/** Applications as persisted: `cvPath` is the private upload key and is never sent to clients. */
+export type StoredApplication = JobApplication & { cvPath: string };
+
+/**
+ * Publication files are private uploads so every download goes through the API and is counted.
+ * `text` holds each PDF page's extracted text for search; neither field is sent to clients.
+ */
+export type StoredPublicationVersion = PublicationVersion & { path: string, text: string[] };
+export type StoredPublication = Omit<Publication, 'versions' | 'downloads'> & { versions: StoredPublicationVersion[] };
+
+/** Letters and digits that cannot be confused when read out over the phone (no 0/O, 1/I/L). */
+export const TICKET_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+/**
+ * Report tickets look like `CPA-7KQ4-M9TX`: short enough to dictate, random so that holding one
+ * ticket number does not let anyone walk through other citizens' reports.
+ */
+const createTrackingId = (db: DB) => {
+  const exists = db.prepare('SELECT 1 FROM reports WHERE id = ?');
+  for (;;) {
+    const code = Array.from({ length: 8 }, () => TICKET_ALPHABET[randomInt(TICKET_ALPHABET.length)]).join('');
+    const id = `CPA-${code.slice(0, 4)}-${code.slice(4)}`;
+    if (!exists.get(id)) return id;
+  }
+};
+
+export const createStore = (db: DB) => ({
+  db,
+  users: createRepository<StoredUser>(db, 'users'),
+  products: createRepository<Product>(db, 'products', { numericIds: true }),
+  priceRevisions: createRepository<PriceRevision>(db, 'price_revisions', { numericIds: true }),
+  reports: createRepository<ViolationReport>(db, 'reports', { generateId: createTrackingId, newestFirst: true }),
+  shops: createRepository<Shop>(db, 'shops', { numericIds: true }),
+  jobs: createRepository<JobOpportunity>(db, 'jobs', { numericIds: true }),
+  applications: createRepository<StoredApplication>(db, 'job_applications', { numericIds: true, newestFirst: true }),
+  news: createRepository<NewsItem>(db, 'news', { numericIds: true }),
+  media: createRepository<MediaItem>(db, 'media', { numericIds: true }),
+  mediaAlbums: createRepository<MediaAlbum>(db, 'media_albums', { numericIds: true }),
+  publications: createRepository<StoredPublication>(db, 'publications', { numericIds: true }),
+  projects: createRepository<Project>(db, 'projects', { numericIds: true }),
+  exchangeRates: createRepository<ExchangeRate>(db, 'exchange_rates', { numericIds: true }),
+  surveyRounds: createRepository<SurveyRound>(db, 'survey_rounds', { numericIds: true, newestFirst: true }),
+  priceObservations: createRepository<PriceObservation>(db, 'price_observations', { numericIds: true }),
+});
+
+export type Store = ReturnType<typeof createStore>;
@@ -0,0 +1,182 @@
+import { Router, type Request } from 'express';
+import { can } from '../permissions';
+import type { PriceObservation, SurveyAssignment, SurveyProductStats, SurveyRound, SurveyRoundStatus, SurveyRoundSummary, SurveyTask } from '../types';
+import { currentUser, requirePermission } from './auth';
+import { HttpError } from './errors';
+import { priceOn } from './products';
+import { median } from './reportStats';
+import type { Store } from './store';
+import { schemas, validate } from './validation';
+
+type IdRequest = Request<{ id: string }>;
+
+const STATUSES: SurveyRoundStatus[] = ['planned', 'active', 'closed'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const isCollecting = (round: SurveyRound, date = today()) =>
+  round.status === 'active' && round.startDate <= date && date <= round.endDate;
+
+/** Every product code any volunteer was asked to price in the round, in first-assigned order. */
+const roundProductCodes = (round: SurveyRound) => [...new Set(round.assignments.flatMap(a => a.productCodes))];
+
+export const summarizeRound = (store: Store, round: SurveyRound): SurveyRoundSummary => {
+  const observations = store.priceObservations.list().filter(o => o.roundId === round.id);
+  // Official prices as they stood when the round ended, or today while it is still running.
+  const asOf = round.endDate < today() ? round.endDate : today();
+  const codes = [...new Set([...roundProductCodes(round), ...observations.map(o => o.productCode)])];
+  const products = codes.map((code): SurveyProductStats => {
+    const product = store.products.list().find(p => p.code === code);
+    const prices = observations.filter(o => o.productCode === code).map(o => o.price);
+    const officialPrice = priceOn(store, code, asOf) ?? null;
+    const middle = median(prices);
+    return {
+      productCode: code, nameAr: product?.nameAr ?? code, nameEn: product?.nameEn ?? code, unit: product?.unit ?? '',
+      officialPrice, observations: prices.length,
+      min: prices.length ? Math.min(...prices) : null, median: middle, max: prices.length ? Math.max(...prices) : null,
+      deviation: officialPrice && middle !== null ? (middle - officialPrice) / officialPrice : null,
+    };
+  });
+  return { ...round, observations: observations.length, products };
+};
+
+export const surveysRouter = (store: Store) => {
+  const router = Router();
+  const canManage = requirePermission(store, 'surveys:manage');
+  const canSubmit = requirePermission(store, 'surveys:submit');
+
+  const findRound = (id: string) => {
+    const round = store.surveyRounds.get(id);
+    if (!round) throw new HttpError(404, 'Not found');
+    return round;
+  };
+
+  const parseAssignments = (value: unknown): SurveyAssignment[] => {
+    if (!Array.isArray(value)) throw new HttpError(400, '"assignments" must be a list');
+    const codes = new Set(store.products.list().map(p => p.code));
+    const districts = new Set(store.shops.list().map(s => s.district));
+    return value.map(entry => {
+      const assignment = validate<SurveyAssignment>(entry, { volunteerId: 'string', productCodes: 'object', districts: 'object' });
+      if (!can(store.users.get(assignment.volunteerId), 'surveys:submit')) throw new HttpError(400, 'Assignments must name volunteer accounts');
+      if (!Array.isArray(assignment.productCodes) || !assignment.productCodes.length || assignment.productCodes.some(c => !codes.has(c))) {
+        throw new HttpError(400, 'Each assignment needs at least one known product code');
+      }
+      if (!Array.isArray(assignment.districts) || !assignment.districts.length || assignment.districts.some(d => !districts.has(d))) {
+        throw new HttpError(400, 'Each assignment needs at least one district from the shop registry');
+      }
+      return { volunteerId: assignment.volunteerId, productCodes: [...new Set(assignment.productCodes)], districts: [...new Set(assignment.districts)] };
+    });
+  };
+
+  const parseRound = (body: unknown, existing?: SurveyRound): Omit<SurveyRound, 'id'> => {
+    const patch = validate<Partial<SurveyRound>>(body, schemas.surveyRound, !!existing);
+    const { id: _id, ...round } = { ...existing, ...patch } as SurveyRound;
+    if (!round.name.trim()) throw new HttpError(400, '"name" is required');
+    if (!DATE_RE.test(round.startDate) || !DATE_RE.test(round.endDate)) throw new HttpError(400, 'Dates must be YYYY-MM-DD');
+    if (round.endDate < round.startDate) throw new HttpError(400, 'The round cannot end before it starts');
+    if (!STATUSES.includes(round.status)) throw new HttpError(400, `"status" must be one of ${STATUSES.join(', ')}`);
+    // Built field by field so summary figures sent back by the admin form are not stored.
+    return {
+      name: round.name.trim(), startDate: round.startDate, endDate: round.endDate, status: round.status,
+      assignments: patch.assignments !== undefined ? parseAssignments(patch.assignments) : round.assignments,
+    };
+  };
+
+  /** Active rounds this volunteer is assigned to, limited to their products, shops and own entries. */
+  router.get('/mine', canSubmit, (_req, res) => {
+    const user = currentUser(res);
+    const tasks = store.surveyRounds.list().filter(r => isCollecting(r)).flatMap((round): SurveyTask[] => {
+      const assignment = round.assignments.find(a => a.volunteerId === user.id);
+      if (!assignment) return [];
+      return [{
+        round: { id: round.id, name: round.name, startDate: round.startDate, endDate: round.endDate },
+        products: store.products.list().filter(p => assignment.productCodes.includes(p.code)).map(({ code, nameAr, nameEn, unit }) => ({ code, nameAr, nameEn, unit })),
+        shops: store.shops.list().filter(s => assignment.districts.includes(s.district)).map(({ id, nameAr, nameEn, district }) => ({ id, nameAr, nameEn, district })),
+        observations: store.priceObservations.list().filter(o => o.roundId === round.id && o.volunteerId === user.id),
+      }];
+    });
+    res.json(tasks);
+  });
+
+  /**
+   * One shop visit: the prices seen for any of the volunteer's products. Re-submitting a product
+   * for the same shop corrects the earlier entry instead of counting it twice.
+   */
+  router.post('/:id/observations', canSubmit, (req: IdRequest, res) => {
+    const round = findRound(req.params.id);
+    if (!isCollecting(round)) throw new HttpError(409, 'This round is not collecting prices');
+    const user = currentUser(res);
+    const assignment = round.assignments.find(a => a.volunteerId === user.id);
+    if (!assignment) throw new HttpError(403, 'You are not assigned to this round');
+
+    const body = validate<{ shopId: number, prices: unknown }>(req.body, { shopId: 'number', prices: 'object' });
+    const shop = store.shops.get(body.shopId);
+    if (!shop || !assignment.districts.includes(shop.district)) throw new HttpError(400, 'That shop is outside your assigned districts');
+    if (!Array.isArray(body.prices) || !body.prices.length) throw new HttpError(400, '"prices" must list at least one product');
+    const prices = body.prices.map(entry => {
+      const price = validate<{ productCode: string, price: number }>(entry, { productCode: 'string', price: 'number' });
+      if (!assignment.productCodes.includes(price.productCode)) throw new HttpError(400, `Product ${price.productCode} is not assigned to you`);
+      if (price.price <= 0) throw new HttpError(400, 'Prices must be positive');
+      return price;
+    });
+
+    const observedAt = new Date().toISOString();
+    const existing = store.priceObservations.list().filter(o => o.roundId === round.id && o.shopId === shop.id && o.volunteerId === user.id);
+    const saved = store.db.transaction(() => prices.map(({ productCode, price }): PriceObservation => {
+      const previous = existing.find(o => o.productCode === productCode);
+      const observation = { roundId: round.id, productCode, shopId: shop.id, district: shop.district, price, observedAt, volunteerId: user.id, volunteerName: user.name };
+      return previous ? store.priceObservations.update(previous.id, observation)! : store.priceObservations.create(observation);
+    }))();
+    res.status(201).json(saved);
+  });
+
+  router.use(canManage);
+
+  // Coordinators need to pick volunteers without being able to manage accounts.
+  router.get('/volunteers', (_req, res) => {
+    res.json(store.users.list().filter(u => can(u, 'surveys:submit')).map(({ id, name }) => ({ id, name })));
+  });
+
+  router.get('/', (_req, res) => {
+    res.json(store.surveyRounds.list().map(round => summarizeRound(store, round)));
+  });
+
+  router.get('/:id', (req: IdRequest, res) => {
+    res.json(summarizeRound(store, findRound(req.params.id)));
+  });
+
+  router.get('/:id/observations', (req: IdRequest, res) => {
+    const round = findRound(req.params.id);
+    res.json(store.priceObservations.list().filter(o => o.roundId === round.id));
+  });
+
+  router.post('/', (req, res) => {
+    res.status(201).json(summarizeRound(store, store.surveyRounds.create(parseRound(req.body))));
+  });
+
+  router.put('/:id', (req: IdRequest, res) => {
+    const existing = findRound(req.params.id);
+    res.json(summarizeRound(store, store.surveyRounds.update(existing.id, parseRound(req.body, existing))!));
+  });
+
+  router.delete('/:id', (req: IdRequest, res) => {
+    const round = findRound(req.params.id);
+    store.db.transaction(() => {
+      store.priceObservations.list().filter(o => o.roundId === round.id).forEach(o => store.priceObservations.remove(o.id));
+      store.surveyRounds.remove(round.id);
+    })();
+    res.status(204).end();
+  });
+
+  /** Lets a coordinator discard an implausible entry (a typo, the wrong product). */
+  router.delete('/:id/observations/:observationId', (req: Request<{ id: string, observationId: string }>, res) => {
+    const round = findRound(req.params.id);
+    const observation = store.priceObservations.get(req.params.observationId);
+    if (!observation || observation.roundId !== round.id) throw new HttpError(404, 'Not found');
+    store.priceObservations.remove(observation.id);
+    res.json(summarizeRound(store, round));
+  });
+
+  return router;
+};
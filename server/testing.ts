@@ -0,0 +1,49 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { User } from '../types';
+import { authRouter, hashPassword } from './auth';
+import { openDatabase } from './db';
+import { errorHandler } from './errors';
+import { createStore, type Store } from './store';
+
+// Helpers for the *.test.ts files: an in-memory store and the API running on a free local port.
+
+export const listen = (app: express.Express) => new Promise<{ server: Server, url: string }>(resolve => {
+  const server = app.listen(0, '127.0.0.1', () => resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }));
+});
+
+/**
+ * Serves `routers` under /api next to the auth routes, with one user of `role` signed in.
+ * `request` sends JSON with that user's session cookie and returns the status and parsed body.
+ */
+export const startApi = async (routers: (store: Store) => Record<string, express.Router>, role: User['role'] = 'admin') => {
+  const store = createStore(openDatabase(':memory:'));
+  store.users.create({ username: 'tester', name: 'Tester', role, passwordHash: await hashPassword('secret') });
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRouter(store));
+  for (const [path, router] of Object.entries(routers(store))) app.use(`/api${path}`, router);
+  app.use(errorHandler);
+  const { server, url } = await listen(app);
+
+  const login = await fetch(`${url}/api/auth/login`, {
+    method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ username: 'tester', password: 'secret' }),
+  });
+  const cookie = login.headers.getSetCookie()[0].split(';')[0];
+
+  const request = async <T>(path: string, method = 'GET', body?: unknown) => {
+    const response = await fetch(`${url}/api${path}`, {
+      method, headers: { cookie, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }) }, body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: (text ? JSON.parse(text) : undefined) as T };
+  };
+
+  const close = () => {
+    server.close();
+    store.db.close();
+  };
+
+  return { store, request, close };
+};
@@ -0,0 +1,56 @@
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import { Router } from 'express';
+import type { TileConfig } from '../types';
+import { HttpError } from './errors';
+
+const CONTENT_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// Public OSM tiles are only a fallback for development; field deployments should ship a raster
+// MBTiles extract of Taiz (TILES_MBTILES) so the map keeps working without internet access.
+const REMOTE_FALLBACK: TileConfig = {
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; OpenStreetMap contributors',
+  minZoom: 3,
+  maxZoom: 19,
+  offline: false,
+};
+
+/** Serves raster tiles from a local MBTiles file, plus the config telling the client where to fetch tiles from. */
+export const tilesRouter = (file = process.env.TILES_MBTILES) => {
+  const router = Router();
+  const db = file && fs.existsSync(file) ? new Database(file, { readonly: true, fileMustExist: true }) : null;
+  const metadata = new Map(db
+    ? (db.prepare('SELECT name, value FROM metadata').all() as { name: string; value: string }[]).map(r => [r.name, r.value])
+    : []);
+  const selectTile = db?.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+  const contentType = CONTENT_TYPES[metadata.get('format') ?? 'png'];
+
+  if (db && !contentType) console.warn(`MBTiles format "${metadata.get('format')}" is not a raster format, tiles may not render.`);
+
+  const config: TileConfig = db ? {
+    url: '/api/tiles/{z}/{x}/{y}',
+    attribution: metadata.get('attribution') ?? REMOTE_FALLBACK.attribution,
+    minZoom: Number(metadata.get('minzoom') ?? 0),
+    maxZoom: Number(metadata.get('maxzoom') ?? 18),
+    offline: true,
+  } : REMOTE_FALLBACK;
+
+  router.get('/config', (_req, res) => {
+    res.json(config);
+  });
+
+  router.get('/:z/:x/:y', (req, res) => {
+    if (!selectTile) throw new HttpError(404, 'No local tiles configured');
+    const [z, x, y] = [req.params.z, req.params.x, req.params.y].map(v => parseInt(v, 10));
+    if ([z, x, y].some(Number.isNaN)) throw new HttpError(400, 'Invalid tile coordinates');
+    // MBTiles stores rows in TMS order (origin bottom-left), Leaflet requests XYZ (origin top-left).
+    const row = selectTile.get(z, x, (1 << z) - 1 - y) as { tile_data: Buffer } | undefined;
+    if (!row) throw new HttpError(404, 'Tile not found');
+    res.set('Content-Type', contentType ?? 'application/octet-stream');
+    res.set('Cache-Control', 'public, max-age=604800');
+    res.send(row.tile_data);
+  });
+
+  return router;
+};
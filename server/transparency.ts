@@ -0,0 +1,122 @@
+import { Router, type Request } from 'express';
+import type { TransparencyStats } from '../types';
+import { toCsv } from './csv';
+import { HttpError } from './errors';
+import { daysToResolve, isOvercharge, monthlyCounts, resolvedAt, summarizeReports } from './reportStats';
+import type { Store } from './store';
+
+const TOP_COUNT = 5;
+const TREND_MONTHS = 12;
+
+/** Cheap enough to recompute per request, but there is no point in doing it more than every few minutes. */
+const CACHE_CONTROL = 'public, max-age=300';
+
+/**
+ * One published row per report, limited to fields that identify neither the citizen nor the
+ * shop: no ticket number, contact, shop name, description, photo or coordinates.
+ */
+const OPEN_DATA_COLUMNS = [
+  'date', 'productCode', 'productNameEn', 'productNameAr', 'category', 'district',
+  'officialPrice', 'reportedPrice', 'overchargePercent', 'status', 'resolvedDate', 'daysToResolve',
+] as const;
+
+type OpenDataRow = Record<typeof OPEN_DATA_COLUMNS[number], string | number | null>;
+
+const rank = <T extends { reports: number }>(items: Iterable<T>) =>
+  [...items].sort((a, b) => b.reports - a.reports).slice(0, TOP_COUNT);
+
+export const computeTransparency = (store: Store, now = new Date()): TransparencyStats => {
+  const reports = store.reports.list();
+  const productByCode = new Map(store.products.list().map(p => [p.code, p]));
+
+  // Reports without a catalogue product (free-text names) are grouped by their spelling.
+  const products = new Map<string, TransparencyStats['topProducts'][number]>();
+  const categories = new Map<string, TransparencyStats['topCategories'][number]>();
+  for (const r of reports) {
+    const product = r.productCode ? productByCode.get(r.productCode) : undefined;
+    const name = r.productName?.trim();
+    const key = product ? `code:${product.code}` : name ? `name:${name.toLowerCase()}` : null;
+    if (key) {
+      const entry = products.get(key) ?? {
+        code: product?.code ?? null, nameAr: product?.nameAr ?? name!, nameEn: product?.nameEn ?? name!,
+        category: product?.category ?? null, reports: 0, overchargeReports: 0,
+      };
+      entry.reports++;
+      if (isOvercharge(r)) entry.overchargeReports++;
+      products.set(key, entry);
+    }
+    if (product) {
+      const entry = categories.get(product.category) ?? { category: product.category, reports: 0, overchargeReports: 0 };
+      entry.reports++;
+      if (isOvercharge(r)) entry.overchargeReports++;
+      categories.set(product.category, entry);
+    }
+  }
+
+  const to = now.toISOString().slice(0, 10);
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (TREND_MONTHS - 1), 1)).toISOString().slice(0, 10);
+  return {
+    generatedAt: now.toISOString(),
+    totals: { ...summarizeReports(reports), followedUp: reports.filter(r => r.status !== 'pending').length },
+    topProducts: rank(products.values()),
+    topCategories: rank(categories.values()),
+    monthly: monthlyCounts(reports, from, to),
+  };
+};
+
+export const openDataRows = (store: Store): OpenDataRow[] => {
+  const productByCode = new Map(store.products.list().map(p => [p.code, p]));
+  const districtOf = new Map(store.shops.list().map(s => [s.id, s.district]));
+  // Oldest first, the natural order for a published time series.
+  return [...store.reports.list()].reverse().map((r): OpenDataRow => {
+    const product = r.productCode ? productByCode.get(r.productCode) : undefined;
+    const days = daysToResolve(r);
+    return {
+      date: r.timestamp.slice(0, 10),
+      productCode: r.productCode ?? null,
+      productNameEn: product?.nameEn ?? r.productName ?? null,
+      productNameAr: product?.nameAr ?? r.productName ?? null,
+      category: product?.category ?? null,
+      district: r.shopId != null ? districtOf.get(r.shopId) ?? null : null,
+      officialPrice: r.officialPrice ?? null,
+      reportedPrice: r.reportedPrice,
+      overchargePercent: r.officialPrice ? Math.round(((r.reportedPrice - r.officialPrice) / r.officialPrice) * 1000) / 10 : null,
+      status: r.status,
+      resolvedDate: resolvedAt(r)?.slice(0, 10) ?? null,
+      daysToResolve: days === null ? null : Math.round(days * 10) / 10,
+    };
+  });
+};
+
+/** Public, read-only figures for the home page and an open-data download for journalists and partners. */
+export const transparencyRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.json(computeTransparency(store));
+  });
+
+  router.get('/open-data/:file', (req: Request<{ file: string }>, res) => {
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    const date = new Date().toISOString().slice(0, 10);
+    switch (req.params.file) {
+      case 'reports.json':
+        res.json({ generatedAt: new Date().toISOString(), columns: OPEN_DATA_COLUMNS, rows: openDataRows(store) });
+        return;
+      case 'reports.csv':
+        res.attachment(`cpa-reports-${date}.csv`).type('text/csv; charset=utf-8')
+          .send(toCsv([[...OPEN_DATA_COLUMNS], ...openDataRows(store).map(row => OPEN_DATA_COLUMNS.map(c => row[c]))]));
+        return;
+      case 'monthly.csv':
+        res.attachment(`cpa-monthly-${date}.csv`).type('text/csv; charset=utf-8')
+          .send(toCsv([['month', 'received', 'resolved'], ...computeTransparency(store).monthly.map(m => [m.month, m.received, m.resolved])]));
+        return;
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  });
+
+  return router;
+};
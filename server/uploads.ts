@@ -0,0 +1,100 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { UploadedFile } from '../types';
+import { HttpError } from './errors';
+
+/** Uploaded files live on disk next to the database and are served read-only under `UPLOAD_URL`. */
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || path.join('data', 'uploads'));
+export const UPLOAD_URL = '/uploads';
+/** Personal documents (CVs) are kept apart and only handed out by API routes that check permissions. */
+export const PRIVATE_UPLOAD_DIR = path.resolve(process.env.PRIVATE_UPLOAD_DIR || path.join('data', 'private'));
+
+interface FileType {
+  mimeType: string;
+  /** Leading bytes every genuine file of this type starts with; the extension alone is not trusted. */
+  magic: (bytes: Buffer) => boolean;
+}
+
+const startsWith = (...signature: number[]) => (bytes: Buffer) => signature.every((b, i) => bytes[i] === b);
+
+export const FILE_TYPES = {
+  jpg: { mimeType: 'image/jpeg', magic: startsWith(0xff, 0xd8, 0xff) },
+  jpeg: { mimeType: 'image/jpeg', magic: startsWith(0xff, 0xd8, 0xff) },
+  png: { mimeType: 'image/png', magic: startsWith(0x89, 0x50, 0x4e, 0x47) },
+  webp: { mimeType: 'image/webp', magic: bytes => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP' },
+  gif: { mimeType: 'image/gif', magic: bytes => bytes.subarray(0, 4).toString('latin1') === 'GIF8' },
+  pdf: { mimeType: 'application/pdf', magic: bytes => bytes.subarray(0, 5).toString('latin1') === '%PDF-' },
+  // Legacy Word files are OLE compound documents; .docx is a ZIP container.
+  doc: { mimeType: 'application/msword', magic: startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1) },
+  docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', magic: startsWith(0x50, 0x4b, 0x03, 0x04) },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', magic: startsWith(0x50, 0x4b, 0x03, 0x04) },
+  // ISO media files carry an "ftyp" box right after its 4-byte length.
+  mp4: { mimeType: 'video/mp4', magic: bytes => bytes.subarray(4, 8).toString('latin1') === 'ftyp' },
+  webm: { mimeType: 'video/webm', magic: startsWith(0x1a, 0x45, 0xdf, 0xa3) },
+} satisfies Record<string, FileType>;
+
+export type FileExtension = keyof typeof FILE_TYPES;
+
+export const IMAGE_TYPES: FileExtension[] = ['jpg', 'jpeg', 'png', 'webp', 'gif'];
+export const VIDEO_TYPES: FileExtension[] = ['mp4', 'webm'];
+
+export interface UploadSpec {
+  /** Sub-directory of UPLOAD_DIR, e.g. "news". */
+  folder: string;
+  types: FileExtension[];
+  maxBytes: number;
+  /** Store under PRIVATE_UPLOAD_DIR; the returned `url` is then a key for `privateUploadPath`, not a public URL. */
+  private?: boolean;
+}
+
+/** Checks an upload's extension, size and leading bytes against `spec`; returns the extension. */
+export const checkUpload = (spec: UploadSpec, fileName: string, bytes: Buffer) => {
+  const extension = path.extname(fileName).slice(1).toLowerCase() as FileExtension;
+  if (!spec.types.includes(extension)) throw new HttpError(400, `Only ${spec.types.join(', ')} files are accepted`);
+  if (!bytes.length) throw new HttpError(400, 'The file is empty');
+  if (bytes.length > spec.maxBytes) throw new HttpError(413, `Files may be at most ${Math.round(spec.maxBytes / 1024 / 1024)} MB`);
+  if (!FILE_TYPES[extension].magic(bytes)) throw new HttpError(400, `The file is not a valid .${extension} file`);
+  return extension;
+};
+
+/** Writes `bytes` as `folder/name`; returns the public URL, or the private key for `spec.private`. */
+export const writeUpload = async (spec: Pick<UploadSpec, 'folder' | 'private'>, name: string, bytes: Buffer) => {
+  const root = spec.private ? PRIVATE_UPLOAD_DIR : UPLOAD_DIR;
+  await fs.mkdir(path.join(root, spec.folder), { recursive: true });
+  await fs.writeFile(path.join(root, spec.folder, name), bytes);
+  const key = `${spec.folder}/${name}`;
+  return spec.private ? key : `${UPLOAD_URL}/${key}`;
+};
+
+/** Checks an uploaded file and stores it under a random name. */
+export const saveUploadBytes = async (spec: UploadSpec, fileName: string, bytes: Buffer): Promise<UploadedFile> => {
+  const extension = checkUpload(spec, fileName, bytes);
+  const url = await writeUpload(spec, `${randomUUID()}.${extension}`, bytes);
+  return { url, fileName: path.basename(fileName), mimeType: FILE_TYPES[extension].mimeType, size: bytes.length };
+};
+
+/** Same as `saveUploadBytes` for a base64 body field (a bare string or a data URL). */
+export const saveUpload = (spec: UploadSpec, upload: { fileName: string, content: string }) =>
+  saveUploadBytes(spec, upload.fileName, decodeBase64(upload.content));
+
+export const decodeBase64 = (content: string) => Buffer.from(content.replace(/^data:[^;]*;base64,/, ''), 'base64');
+
+/** Deletes a file previously stored by `saveUpload` or `writeUpload`; URLs pointing elsewhere are ignored. */
+export const removeUpload = async (url: string | null | undefined) => {
+  if (!url?.startsWith(`${UPLOAD_URL}/`)) return;
+  const file = path.resolve(UPLOAD_DIR, url.slice(UPLOAD_URL.length + 1));
+  if (!file.startsWith(UPLOAD_DIR + path.sep)) return;
+  await fs.rm(file, { force: true });
+};
+
+/** Absolute path of a private upload, refusing keys that would escape PRIVATE_UPLOAD_DIR. */
+export const privateUploadPath = (key: string) => {
+  const file = path.resolve(PRIVATE_UPLOAD_DIR, key);
+  if (!file.startsWith(PRIVATE_UPLOAD_DIR + path.sep)) throw new HttpError(404, 'Not found');
+  return file;
+};
+
+export const removePrivateUpload = async (key: string) => {
+  await fs.rm(privateUploadPath(key), { force: true });
+};
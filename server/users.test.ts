@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { User } from '../types';
+import { verifyPassword } from './auth';
+import { startApi } from './testing';
+import { usersRouter } from './users';
+
+describe('users', () => {
+  let api: Awaited<ReturnType<typeof startApi>>;
+
+  before(async () => {
+    api = await startApi(store => ({ '/users': usersRouter(store) }));
+  });
+
+  after(() => api.close());
+
+  const stored = (id: string) => api.store.users.get(id) as unknown as Record<string, unknown>;
+
+  it('stores only the known fields of a new account', async () => {
+    const { status, body } = await api.request<User>('/users', 'POST', {
+      username: 'clerk', name: 'Clerk', role: 'staff', password: 'long enough', passwordHash: 'forged', isOwner: true,
+    });
+    assert.equal(status, 201);
+    assert.deepEqual(Object.keys(stored(body.id)).sort(), ['id', 'name', 'passwordHash', 'role', 'username']);
+    assert.ok(await verifyPassword('long enough', stored(body.id).passwordHash as string));
+  });
+
+  it('ignores a password hash or unknown fields sent with an update', async () => {
+    const user = (await api.request<User>('/users', 'POST', { username: 'volunteer', name: 'V', role: 'volunteer', password: 'long enough' })).body;
+    const { status } = await api.request(`/users/${user.id}`, 'PUT', { name: 'Volunteer', passwordHash: 'forged', isOwner: true });
+    assert.equal(status, 200);
+    assert.equal(stored(user.id).name, 'Volunteer');
+    assert.equal(stored(user.id).isOwner, undefined);
+    assert.ok(await verifyPassword('long enough', stored(user.id).passwordHash as string));
+  });
+});
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import type { User } from '../types';
+import { can, ROLES } from '../permissions';
+import { currentUser, hashPassword, requirePermission, revokeUserSessions, toPublicUser } from './auth';
+import { HttpError } from './errors';
+import type { Store } from './store';
+import { schemas, validate, type Schema } from './validation';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+type UserInput = Omit<User, 'id'> & { password?: string };
+const userSchema = { ...schemas.user, password: 'string?' } satisfies Schema;
+
+export const usersRouter = (store: Store) => {
+  const router = Router();
+
+  // Case workers need to pick an assignee without being able to manage accounts.
+  router.get('/assignees', requirePermission(store, 'reports:manage'), (_req, res) => {
+    res.json(store.users.list().filter(u => can(u, 'reports:read')).map(({ id, name }) => ({ id, name })));
+  });
+
+  router.use(requirePermission(store, 'users:manage'));
+
+  const checkPassword = (password: unknown) => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new HttpError(400, `"password" must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    return password;
+  };
+
+  const checkRole = (role: unknown) => {
+    if (!ROLES.includes(role as User['role'])) throw new HttpError(400, `"role" must be one of: ${ROLES.join(', ')}`);
+  };
+
+  const checkUsernameFree = (username: string, id?: string) => {
+    const taken = store.users.list().some(u => u.id !== id && u.username.toLowerCase() === username.toLowerCase());
+    if (taken) throw new HttpError(409, 'Username already exists');
+  };
+
+  router.get('/', (_req, res) => {
+    res.json(store.users.list().map(toPublicUser));
+  });
+
+  router.get('/:id', (req, res) => {
+    const user = store.users.get(req.params.id);
+    if (!user) throw new HttpError(404, 'Not found');
+    res.json(toPublicUser(user));
+  });
+
+  router.post('/', async (req, res) => {
+    const { password, ...body } = validate<UserInput>(req.body, userSchema);
+    checkRole(body.role);
+    checkUsernameFree(body.username);
+    const user = store.users.create({ ...body, passwordHash: await hashPassword(checkPassword(password)) });
+    res.status(201).json(toPublicUser(user));
+  });
+
+  router.put('/:id', async (req, res) => {
+    const { password, ...patch } = validate<Partial<UserInput>>(req.body, userSchema, true);
+    if (patch.role !== undefined) {
+      checkRole(patch.role);
+      // Guards against an admin locking everyone (including themselves) out of user management.
+      if (req.params.id === currentUser(res).id && patch.role !== currentUser(res).role) {
+        throw new HttpError(400, 'You cannot change your own role');
+      }
+    }
+    if (patch.username) checkUsernameFree(patch.username, req.params.id);
+    const passwordHash = password === undefined ? undefined : await hashPassword(checkPassword(password));
+    const user = store.users.update(req.params.id, passwordHash ? { ...patch, passwordHash } : patch);
+    if (!user) throw new HttpError(404, 'Not found');
+    if (passwordHash) revokeUserSessions(store.db, user.id);
+    res.json(toPublicUser(user));
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (req.params.id === currentUser(res).id) throw new HttpError(400, 'You cannot delete your own account');
+    if (!store.users.remove(req.params.id)) throw new HttpError(404, 'Not found');
+    revokeUserSessions(store.db, req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,61 @@
+import { HttpError } from './errors';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object';
+export type Schema = Record<string, FieldType | `${FieldType}?`>;
+
+/**
+ * Minimal runtime check of a JSON body against a field→type map. Fields suffixed
+ * with `?` may be missing or null; `partial` treats every field as optional (PUT).
+ * Returns only the fields the schema lists, so clients cannot store anything else.
+ */
+export const validate = <T>(body: unknown, schema: Schema, partial = false): T => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  const record = body as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = partial || spec.endsWith('?');
+    const type = spec.replace('?', '');
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!optional) throw new HttpError(400, `"${field}" is required`);
+      // An explicit null clears the field on update.
+      if (value === null) result[field] = null;
+      continue;
+    }
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      throw new HttpError(400, `"${field}" must be a ${type}`);
+    }
+    result[field] = value;
+  }
+  return result as T;
+};
+
+export const schemas = {
+  user: { username: 'string', role: 'string', name: 'string' },
+  product: { code: 'string', nameAr: 'string', nameEn: 'string', price: 'number', unit: 'string', lastUpdated: 'string', category: 'string' },
+  report: {
+    productCode: 'string?', productName: 'string?', reportedPrice: 'number',
+    shopName: 'string?', location: 'object?', description: 'string', status: 'string', timestamp: 'string', evidenceImage: 'string?', contact: 'object?', submissionId: 'string?', language: 'string?',
+  },
+  shop: { nameAr: 'string', nameEn: 'string', district: 'string', location: 'object?', licenseNumber: 'string?', aliases: 'object?' },
+  job: { titleAr: 'string', titleEn: 'string', type: 'string', location: 'string', descriptionAr: 'string', descriptionEn: 'string', deadline: 'string?', postedDate: 'string?', status: 'string?' },
+  surveyRound: { name: 'string', startDate: 'string', endDate: 'string', status: 'string', assignments: 'object' },
+  application: { name: 'string', email: 'string', phone: 'string?', coverLetter: 'string?', cv: 'object' },
+  news: {
+    slug: 'string?', titleAr: 'string', titleEn: 'string', summaryAr: 'string', summaryEn: 'string', bodyAr: 'string', bodyEn: 'string',
+    image: 'string?', status: 'string', publishedAt: 'string?',
+  },
+  media: { captionAr: 'string', captionEn: 'string', date: 'string', albumId: 'number?', tags: 'object?' },
+  mediaAlbum: { titleAr: 'string', titleEn: 'string' },
+  publication: { titleAr: 'string', titleEn: 'string', descriptionAr: 'string?', descriptionEn: 'string?' },
+  project: {
+    nameAr: 'string', nameEn: 'string', descriptionAr: 'string', descriptionEn: 'string', donorIds: 'object', budget: 'number', currency: 'string',
+    startDate: 'string', endDate: 'string?', categories: 'object?', districts: 'object?',
+  },
+  profile: {
+    missionAr: 'string', missionEn: 'string', visionAr: 'string', visionEn: 'string', aboutAr: 'string', aboutEn: 'string',
+    phone: 'string', email: 'string', addressAr: 'string', addressEn: 'string',
+  },
+} satisfies Record<string, Schema>;
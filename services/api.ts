@@ -0,0 +1,196 @@
+import {
+  Language, User, Product, PriceRevision, PriceImportResult, PriceListMapping, ViolationReport, TrackedReport, ViolationAnalysis, Shop, JobOpportunity, JobApplication, NewsItem, MediaItem, MediaAlbum, Publication, PublicationSearchResult, OrganizationProfile, CiviCRMStats, CiviCRMHealth, CiviCRMSettings, ProjectExpense, ProjectSummary, TransparencyStats, CurrencyRate, ExchangeRate, RateImportResult, TileConfig, UploadedFile, SurveyRoundSummary, SurveyTask, PriceObservation
+} from '../types';
+
+export const API_BASE = '/api';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+let onUnauthorized: (() => void) | null = null;
+
+/** Lets the auth layer react when the server reports the session has expired or was revoked. */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
+export const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+  } catch (error) {
+    console.error('API Network Error:', error);
+    throw new ApiError(0, 'Network error, please check your connection.');
+  }
+
+  if (response.status === 401 && !path.startsWith('/auth/')) onUnauthorized?.();
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error || response.statusText);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+export interface Resource<T extends { id: string | number }> {
+  list: () => Promise<T[]>;
+  get: (id: T['id']) => Promise<T>;
+  create: (item: Omit<T, 'id'>) => Promise<T>;
+  update: (id: T['id'], patch: Partial<T>) => Promise<T>;
+  remove: (id: T['id']) => Promise<void>;
+}
+
+const resource = <T extends { id: string | number }>(path: string): Resource<T> => ({
+  list: () => request<T[]>(path),
+  get: id => request<T>(`${path}/${encodeURIComponent(id)}`),
+  create: item => request<T>(path, { method: 'POST', body: JSON.stringify(item) }),
+  update: (id, patch) => request<T>(`${path}/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(patch) }),
+  remove: id => request<void>(`${path}/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+});
+
+export interface Singleton<T> {
+  get: () => Promise<T>;
+  update: (patch: Partial<T>) => Promise<T>;
+}
+
+const singleton = <T>(path: string): Singleton<T> => ({
+  get: () => request<T>(path),
+  update: patch => request<T>(path, { method: 'PUT', body: JSON.stringify(patch) }),
+});
+
+export const api = {
+  auth: {
+    login: (username: string, password: string) => request<User>('/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) }),
+    logout: () => request<void>('/auth/logout', { method: 'POST' }),
+    session: () => request<User>('/auth/session'),
+  },
+  users: resource<User>('/users'),
+  products: {
+    ...resource<Product>('/products'),
+    revisions: (id: number) => request<PriceRevision[]>(`/products/${id}/revisions`),
+    addRevision: (id: number, revision: Pick<PriceRevision, 'price' | 'effectiveDate' | 'source'>) =>
+      request<{ revision: PriceRevision, product: Product }>(`/products/${id}/revisions`, { method: 'POST', body: JSON.stringify(revision) }),
+    /** Previews a CSV/XLSX sheet (base64 `content`); pass `commit` to apply it. */
+    importSheet: (sheet: { fileName: string, content: string, mapping?: PriceListMapping, effectiveDate?: string, source?: string, commit?: boolean }) =>
+      request<PriceImportResult>('/products/import', { method: 'POST', body: JSON.stringify(sheet) }),
+    exportUrl: (format: 'csv' | 'xlsx') => `${API_BASE}/products/export?format=${format}`,
+  },
+  reports: {
+    ...resource<ViolationReport>('/reports'),
+    /** Public submission; the server assesses the report and writes the assessment in `language`. */
+    submit: (report: Omit<ViolationReport, 'id'>, language: Language) =>
+      request<ViolationReport>('/reports', { method: 'POST', body: JSON.stringify({ ...report, language }) }),
+    /** Public status trail for a ticket number; tolerant of case and missing dashes. */
+    track: (id: string) => request<TrackedReport>(`/reports/track/${encodeURIComponent(id)}`),
+    addNote: (id: string, text: string) => request<ViolationReport>(`/reports/${encodeURIComponent(id)}/notes`, { method: 'POST', body: JSON.stringify({ text }) }),
+    bulkUpdate: (ids: string[], patch: Pick<Partial<ViolationReport>, 'status' | 'assigneeId' | 'shopId'>) =>
+      request<ViolationReport[]>('/reports/bulk', { method: 'POST', body: JSON.stringify({ ids, ...patch }) }),
+  },
+  shops: {
+    ...resource<Shop>('/shops'),
+    /** Folds `sourceIds` into shop `id`; returns the merged shop and the reports that moved to it. */
+    merge: (id: number, sourceIds: number[]) =>
+      request<{ shop: Shop, reports: ViolationReport[] }>(`/shops/${id}/merge`, { method: 'POST', body: JSON.stringify({ sourceIds }) }),
+  },
+  assignees: () => request<Pick<User, 'id' | 'name'>[]>('/users/assignees'),
+  /** Open postings only; HR works on `manage`, which includes closed ones. */
+  jobs: {
+    ...resource<JobOpportunity>('/jobs'),
+    manage: { ...resource<JobOpportunity>('/jobs'), list: () => request<JobOpportunity[]>('/jobs/manage') },
+    /** Public application form; the CV is a base64 PDF or Word file. */
+    apply: (jobId: number, application: Pick<JobApplication, 'name' | 'email' | 'phone' | 'coverLetter'> & { cv: { fileName: string, content: string } }) =>
+      request<{ id: number, submittedAt: string }>(`/jobs/${jobId}/applications`, { method: 'POST', body: JSON.stringify(application) }),
+    applications: resource<JobApplication>('/jobs/applications'),
+    cvUrl: (applicationId: number) => `${API_BASE}/jobs/applications/${applicationId}/cv`,
+  },
+  /** Live articles only; the back office works on `manage`, which includes drafts and scheduled ones. */
+  news: {
+    ...resource<NewsItem>('/news'),
+    bySlug: (slug: string) => request<NewsItem>(`/news/${encodeURIComponent(slug)}`),
+    manage: { ...resource<NewsItem>('/news'), list: () => request<NewsItem[]>('/news/manage') },
+    /** Stores an image (base64 `content`) for a header or the article body. */
+    uploadImage: (file: { fileName: string, content: string }) => request<UploadedFile>('/news/images', { method: 'POST', body: JSON.stringify(file) }),
+  },
+  /**
+   * Newest first. `create` takes the captions, date, album and tags plus either `image` (base64,
+   * resized by the server) or `video`: a YouTube/Vimeo link or the URL `uploadVideo` returned.
+   */
+  media: {
+    ...resource<MediaItem>('/media'),
+    /** Sends an MP4/WebM file as the raw request body; too large to inline as base64. */
+    uploadVideo: (file: File) => request<UploadedFile>(`/media/videos?fileName=${encodeURIComponent(file.name)}`, {
+      method: 'POST', body: file, headers: { 'Content-Type': file.type || 'video/mp4' },
+    }),
+    setPoster: (id: number, image: { fileName: string, content: string }) => request<MediaItem>(`/media/${id}/poster`, { method: 'PUT', body: JSON.stringify(image) }),
+    albums: resource<MediaAlbum>('/media/albums'),
+  },
+  /** Documents that have a file; the back office works on `manage`, which includes ones still waiting for an upload. */
+  publications: {
+    ...resource<Publication>('/publications'),
+    manage: { ...resource<Publication>('/publications'), list: () => request<Publication[]>('/publications/manage') },
+    /** Titles and the text of every page of the current PDFs. */
+    search: (q: string) => request<PublicationSearchResult[]>(`/publications/search?${new URLSearchParams({ q })}`),
+    /** Adds `file` (PDF or XLSX) as the new current version, sent as the raw request body. */
+    uploadVersion: (id: number, file: File, note = '') => request<Publication>(`/publications/${id}/versions?${new URLSearchParams({ fileName: file.name, note })}`, {
+      method: 'POST', body: file, headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    }),
+    removeVersion: (id: number, version: number) => request<Publication>(`/publications/${id}/versions/${version}`, { method: 'DELETE' }),
+    /** Counted download of the current file, or of an earlier `version`. */
+    downloadUrl: (id: number, version?: number) => `${API_BASE}/publications/${id}${version ? `/versions/${version}` : ''}/download`,
+  },
+  profile: singleton<OrganizationProfile>('/profile'),
+  crm: {
+    /** Figures from the last successful sync; they change only through `sync`. */
+    stats: { get: () => request<CiviCRMStats>('/crm/stats') },
+    sync: () => request<CiviCRMStats>('/crm/sync', { method: 'POST' }),
+    /** Live connection check against CiviCRM plus the outcome of the last sync. */
+    health: () => request<CiviCRMHealth>('/crm/health'),
+    settings: singleton<CiviCRMSettings>('/crm/settings'),
+  },
+  /** Managers get every project; donors only those they fund. Every read returns live outcome figures. */
+  projects: {
+    ...resource<ProjectSummary>('/projects'),
+    /** The same summary with spending and outcomes limited to one reporting period. */
+    summary: (id: number, from: string, to: string) => request<ProjectSummary>(`/projects/${id}?${new URLSearchParams({ from, to })}`),
+    addExpense: (id: number, expense: Omit<ProjectExpense, 'id'>) =>
+      request<ProjectSummary>(`/projects/${id}/expenses`, { method: 'POST', body: JSON.stringify(expense) }),
+    removeExpense: (id: number, expenseId: string) =>
+      request<ProjectSummary>(`/projects/${id}/expenses/${encodeURIComponent(expenseId)}`, { method: 'DELETE' }),
+    reportUrl: (id: number, from: string, to: string) => `${API_BASE}/projects/${id}/report?${new URLSearchParams({ from, to })}`,
+  },
+  rates: {
+    /** Latest Taiz rate per currency with its movement since the previous entry. */
+    current: { get: () => request<CurrencyRate[]>('/rates') },
+    history: (days = 90) => request<ExchangeRate[]>(`/rates/history?days=${days}`),
+    record: (rate: Pick<ExchangeRate, 'currency' | 'buy' | 'sell'>) => request<ExchangeRate>('/rates', { method: 'POST', body: JSON.stringify(rate) }),
+    importer: () => request<{ name: string | null }>('/rates/importer'),
+    import: () => request<RateImportResult>('/rates/import', { method: 'POST' }),
+  },
+  /** Rounds come back with min/median/max per product next to the official price. */
+  surveys: {
+    ...resource<SurveyRoundSummary>('/surveys'),
+    volunteers: () => request<Pick<User, 'id' | 'name'>[]>('/surveys/volunteers'),
+    observations: (roundId: number) => request<PriceObservation[]>(`/surveys/${roundId}/observations`),
+    removeObservation: (roundId: number, observationId: number) =>
+      request<SurveyRoundSummary>(`/surveys/${roundId}/observations/${observationId}`, { method: 'DELETE' }),
+    /** The signed-in volunteer's active rounds. */
+    tasks: { get: () => request<SurveyTask[]>('/surveys/mine') },
+    submit: (roundId: number, visit: { shopId: number, prices: Pick<PriceObservation, 'productCode' | 'price'>[] }) =>
+      request<PriceObservation[]>(`/surveys/${roundId}/observations`, { method: 'POST', body: JSON.stringify(visit) }),
+  },
+  transparency: {
+    get: () => request<TransparencyStats>('/transparency'),
+    openDataUrl: (file: 'reports.csv' | 'reports.json' | 'monthly.csv') => `${API_BASE}/transparency/open-data/${file}`,
+  },
+  analysis: {
+    violation: (input: { productName: string, reportedPrice: number, officialPrice: number, description: string, language: Language, evidenceImage?: string }) =>
+      request<ViolationAnalysis>('/analysis/violation', { method: 'POST', body: JSON.stringify(input) }),
+  },
+  tileConfig: () => request<TileConfig>('/tiles/config'),
+};
@@ -0,0 +1,85 @@
+// Minimal typing for the Shape Detection API, which is not in TypeScript's DOM lib yet.
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorInstance { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]> }
+interface BarcodeDetectorClass {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128'];
+const SCAN_INTERVAL_MS = 250;
+
+export type StopScanner = () => void;
+
+export class CameraUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CameraUnavailableError';
+  }
+}
+
+/** UPC-A codes read as EAN-13 gain a leading zero, so both sides are compared without them. */
+export const sameBarcode = (a: string, b: string) => a.replace(/^0+/, '') === b.replace(/^0+/, '');
+
+const nativeDetector = async () => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (!Detector) return null;
+  const formats = (await Detector.getSupportedFormats()).filter(f => FORMATS.includes(f));
+  return formats.length ? new Detector({ formats }) : null;
+};
+
+const openCamera = async (video: HTMLVideoElement) => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new CameraUnavailableError('This browser cannot access the camera');
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+  } catch (error) {
+    throw new CameraUnavailableError(error instanceof Error ? error.message : String(error));
+  }
+  video.srcObject = stream;
+  video.setAttribute('playsinline', 'true');
+  await video.play();
+  return stream;
+};
+
+/**
+ * Streams the rear camera into `video` and calls `onCode` for every barcode read. Uses the
+ * browser's native BarcodeDetector where available (Chrome/Android) and otherwise loads
+ * ZXing on demand so the library stays out of the main bundle.
+ */
+export const startScanner = async (video: HTMLVideoElement, onCode: (code: string) => void): Promise<StopScanner> => {
+  const detector = await nativeDetector();
+
+  if (detector) {
+    const stream = await openCamera(video);
+    let busy = false;
+    const timer = window.setInterval(async () => {
+      if (busy || video.readyState < 2) return;
+      busy = true;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode?.rawValue) onCode(barcode.rawValue);
+      } catch {
+        // A frame that fails to decode is not an error; try the next one.
+      } finally {
+        busy = false;
+      }
+    }, SCAN_INTERVAL_MS);
+    return () => {
+      window.clearInterval(timer);
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    };
+  }
+
+  const { BrowserMultiFormatReader } = await import('@zxing/browser');
+  const reader = new BrowserMultiFormatReader(undefined, { delayBetweenScanAttempts: SCAN_INTERVAL_MS });
+  try {
+    const controls = await reader.decodeFromConstraints({ video: { facingMode: 'environment' }, audio: false }, video, result => {
+      if (result) onCode(result.getText());
+    });
+    return () => controls.stop();
+  } catch (error) {
+    throw new CameraUnavailableError(error instanceof Error ? error.message : String(error));
+  }
+};
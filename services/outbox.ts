@@ -0,0 +1,108 @@
+import type { Language, ViolationReport } from '../types';
+import { ApiError } from './api';
+
+/**
+ * Reports that could not be sent yet, kept in IndexedDB (photos included, as data URLs) so they
+ * survive the tab being closed. Entries stay after delivery as `sent` so the citizen can still
+ * see the ticket number that came back, until they dismiss it.
+ */
+export interface OutboxEntry {
+  /** Also sent to the API as `submissionId`, so a retry after a lost response is not filed twice. */
+  id: string;
+  report: Omit<ViolationReport, 'id'>;
+  language: Language;
+  queuedAt: string;
+  status: 'pending' | 'failed' | 'sent';
+  attempts: number;
+  /** Server message when it rejected the report; such entries are not retried automatically. */
+  error?: string;
+  ticketId?: string;
+}
+
+const DB_NAME = 'cpa-outbox';
+const STORE = 'reports';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+const openDb = () => opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => {
+    opening = null;
+    reject(request.error);
+  };
+});
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const listeners = new Set<() => void>();
+
+/** Called after every change to the outbox; returns an unsubscribe function. */
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const changed = () => listeners.forEach(listener => listener());
+
+export const listOutbox = async () =>
+  (await run<OutboxEntry[]>('readonly', store => store.getAll())).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+const save = async (entry: OutboxEntry) => {
+  await run('readwrite', store => store.put(entry));
+  changed();
+  return entry;
+};
+
+export const queueReport = (report: Omit<ViolationReport, 'id'>, language: Language) => save({
+  id: report.submissionId ?? crypto.randomUUID(),
+  report,
+  language,
+  queuedAt: new Date().toISOString(),
+  status: 'pending',
+  attempts: 0,
+});
+
+export const removeFromOutbox = async (id: string) => {
+  await run('readwrite', store => store.delete(id));
+  changed();
+};
+
+/** Only connectivity problems and server outages are worth retrying; anything else needs a person. */
+export const isRetryable = (error: unknown) =>
+  !(error instanceof ApiError) || error.status === 0 || error.status === 429 || error.status >= 500;
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Sends every pending entry through `submit`, oldest first. Stops at the first connectivity
+ * failure, since the rest would fail the same way. Concurrent calls share one run.
+ */
+export const flushOutbox = (submit: (entry: OutboxEntry) => Promise<ViolationReport>) => flushing ??= (async () => {
+  try {
+    for (const entry of await listOutbox()) {
+      if (entry.status !== 'pending') continue;
+      try {
+        const created = await submit(entry);
+        await save({ ...entry, status: 'sent', attempts: entry.attempts + 1, error: undefined, ticketId: created.id });
+      } catch (error) {
+        const retryable = isRetryable(error);
+        await save({ ...entry, status: retryable ? 'pending' : 'failed', attempts: entry.attempts + 1, error: error instanceof Error ? error.message : String(error) });
+        if (retryable) break;
+      }
+    }
+  } finally {
+    flushing = null;
+  }
+})();
+
+/** Puts a rejected entry back in the queue, e.g. after the server-side problem was fixed. */
+export const retryEntry = async (entry: OutboxEntry) => save({ ...entry, status: 'pending', error: undefined });
@@ -0,0 +1,95 @@
+import { Shop, ShopMatch } from './types';
+
+// Shared by the API (auto-linking new reports) and the admin UI (suggestions), so both
+// agree on what "the same shop" means.
+
+/** Matches at or above this are linked automatically when a report comes in. */
+export const AUTO_MATCH_SCORE = 0.85;
+/** Matches at or above this are offered to reviewers as suggestions. */
+export const SUGGEST_MATCH_SCORE = 0.6;
+
+const NEARBY_METERS = 150;
+
+/** Words that describe the kind of shop rather than which one it is. */
+const GENERIC_WORDS = new Set([
+  'محل', 'محلات', 'بقاله', 'بقالة', 'سوبرماركت', 'سوبر', 'ماركت', 'مركز', 'موسسه', 'مؤسسة', 'معرض', 'تموينات', 'شركه', 'شركة',
+  'shop', 'store', 'market', 'supermarket', 'super', 'mini', 'grocery', 'center', 'centre', 'est', 'establishment', 'co', 'the', 'al', 'el',
+]);
+
+/**
+ * Folds the spelling variations that make one shop look like several: diacritics and tatweel,
+ * hamza forms of alef/waw/yaa, alef maqsura, taa marbuta, Arabic-Indic digits, Latin case and
+ * punctuation. Also drops the definite article "ال" and generic words like "محل" or "store".
+ */
+export const normalizeName = (name: string) => name
+  .toLowerCase()
+  .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+  .replace(/[أإآٱ]/g, 'ا')
+  .replace(/ؤ/g, 'و')
+  .replace(/[ئى]/g, 'ي')
+  .replace(/ة/g, 'ه')
+  .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .split(' ')
+  .filter(word => word && !GENERIC_WORDS.has(word))
+  .map(word => word.length > 3 && word.startsWith('ال') ? word.slice(2) : word)
+  .join(' ');
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 0–1 similarity of two names after normalization: the better of edit distance and word overlap. */
+export const nameSimilarity = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const edit = 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+  const wordsX = new Set(x.split(' '));
+  const wordsY = new Set(y.split(' '));
+  const shared = [...wordsX].filter(w => wordsY.has(w)).length;
+  const overlap = shared / Math.max(wordsX.size, wordsY.size);
+  return Math.max(edit, overlap);
+};
+
+/** A `{ lat, lng }` pair of real coordinates; stored reports and shops are checked with it before anything measures distances. */
+export const isLocation = (value: unknown): value is { lat: number, lng: number } =>
+  !!value && typeof value === 'object'
+  && Number.isFinite((value as { lat: unknown }).lat) && Math.abs((value as { lat: number }).lat) <= 90
+  && Number.isFinite((value as { lng: unknown }).lng) && Math.abs((value as { lng: number }).lng) <= 180;
+
+export const distanceMeters = (a: { lat: number, lng: number }, b: { lat: number, lng: number }) => {
+  const rad = Math.PI / 180;
+  const h = Math.sin((b.lat - a.lat) * rad / 2) ** 2
+    + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin((b.lng - a.lng) * rad / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Registry shops resembling `name`, best first. A report made within 150 m of the shop gets a
+ * boost, since "the bakery" next to a registered bakery is most likely that bakery.
+ */
+export const matchShops = (shops: Shop[], name: string, location?: { lat: number, lng: number } | null, minScore = SUGGEST_MATCH_SCORE): ShopMatch[] =>
+  shops
+    .map(shop => {
+      const similarity = Math.max(...[shop.nameAr, shop.nameEn, ...shop.aliases].map(n => nameSimilarity(name, n)));
+      const nearby = location && shop.location && distanceMeters(location, shop.location) <= NEARBY_METERS;
+      return { shopId: shop.id, score: Math.round(Math.min(1, nearby ? similarity + 0.15 : similarity) * 100) / 100 };
+    })
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+/** The shop a new report should be linked to, if exactly one candidate is confidently the best. */
+export const autoMatchShop = (shops: Shop[], name: string, location?: { lat: number, lng: number } | null) => {
+  const [best, runnerUp] = matchShops(shops, name, location, AUTO_MATCH_SCORE);
+  return best && (!runnerUp || runnerUp.score < best.score) ? best.shopId : undefined;
+};
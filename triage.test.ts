@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { triageReports } from './triage';
+import type { Product, ViolationReport } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse('2025-03-01T10:00:00.000Z');
+const HERE = { lat: 13.58, lng: 44.02 };
+
+const PRODUCTS: Product[] = [
+  { id: 1, code: 'FLOUR', nameAr: 'دقيق', nameEn: 'Flour', price: 1000, unit: 'kg', lastUpdated: '2025-01-01', category: 'Grains' },
+  { id: 2, code: 'SOAP', nameAr: 'صابون', nameEn: 'Soap', price: 1000, unit: 'bar', lastUpdated: '2025-01-01', category: 'Household' },
+];
+
+let nextId = 0;
+
+/** A report at the official price, with no shop or location, so that no rule fires unless a test adds it. */
+const report = (overrides: Partial<ViolationReport> & { day?: number } = {}): ViolationReport => {
+  const { day = 0, ...rest } = overrides;
+  return {
+    id: `R${++nextId}`, productCode: 'SOAP', officialPrice: 1000, reportedPrice: 1000, location: null, description: '',
+    status: 'pending', timestamp: new Date(START + day * DAY_MS).toISOString(), ...rest,
+  };
+};
+
+const triageOf = (target: ViolationReport, others: ViolationReport[] = []) => triageReports([target, ...others], PRODUCTS).get(target.id)!;
+const pointsFor = (target: ViolationReport, rule: string, others: ViolationReport[] = []) =>
+  triageOf(target, others).rules.find(r => r.id === rule)?.points;
+
+/** Moves a point roughly `meters` north; 1° of latitude is about 111 km. */
+const north = (meters: number) => ({ lat: HERE.lat + meters / 111_000, lng: HERE.lng });
+
+describe('triageReports', () => {
+  describe('overcharge', () => {
+    for (const [reportedPrice, points] of [[2000, 45], [1990, 35], [1500, 35], [1250, 25], [1100, 15], [1001, 5]] as const) {
+      it(`gives ${points} points for ${reportedPrice} against an official 1000`, () => {
+        assert.equal(pointsFor(report({ reportedPrice }), 'overcharge'), points);
+      });
+    }
+
+    it('does not fire at or below the official price, or without one', () => {
+      assert.equal(pointsFor(report({ reportedPrice: 1000 }), 'overcharge'), undefined);
+      assert.equal(pointsFor(report({ reportedPrice: 900 }), 'overcharge'), undefined);
+      assert.equal(pointsFor(report({ officialPrice: undefined, reportedPrice: 5000 }), 'overcharge'), undefined);
+    });
+
+    it('explains the percentage', () => {
+      assert.equal(triageOf(report({ reportedPrice: 1620 })).rules[0].detail, '62% above the official price');
+    });
+  });
+
+  describe('essential', () => {
+    it('fires for products in an essential category only', () => {
+      assert.equal(pointsFor(report({ productCode: 'FLOUR' }), 'essential'), 15);
+      assert.equal(pointsFor(report({ productCode: 'SOAP' }), 'essential'), undefined);
+      assert.equal(pointsFor(report({ productCode: 'UNKNOWN' }), 'essential'), undefined);
+    });
+  });
+
+  describe('repeat_offender', () => {
+    const overcharge = { reportedPrice: 1500 };
+
+    it('counts 10 points per other overcharge report against the same registry shop, up to 30', () => {
+      const target = report({ shopId: 7 });
+      assert.equal(pointsFor(target, 'repeat_offender', [report({ shopId: 7, ...overcharge })]), 10);
+      assert.equal(pointsFor(target, 'repeat_offender', [report({ shopId: 7, ...overcharge }), report({ shopId: 7, ...overcharge })]), 20);
+      const many = Array.from({ length: 5 }, () => report({ shopId: 7, ...overcharge }));
+      assert.equal(pointsFor(target, 'repeat_offender', many), 30);
+    });
+
+    it('groups unlinked reports by their normalized shop name', () => {
+      const target = report({ shopName: 'بقالة الأمانة' });
+      assert.equal(pointsFor(target, 'repeat_offender', [report({ shopName: 'امانه', ...overcharge })]), 10);
+      assert.equal(pointsFor(target, 'repeat_offender', [report({ shopName: 'Other Shop', ...overcharge })]), undefined);
+    });
+
+    it('ignores reports against other shops and ones within the official price', () => {
+      const target = report({ shopId: 7 });
+      assert.equal(pointsFor(target, 'repeat_offender', [report({ shopId: 8, ...overcharge }), report({ shopId: 7, reportedPrice: 900 })]), undefined);
+    });
+
+    it('counts reports within 90 days either side', () => {
+      const target = report({ shopId: 7, day: 100 });
+      const others = [report({ shopId: 7, day: 10, ...overcharge }), report({ shopId: 7, day: 190, ...overcharge })];
+      assert.equal(pointsFor(target, 'repeat_offender', others), 20);
+      const outside = [report({ shopId: 7, day: 9, ...overcharge }), report({ shopId: 7, day: 191, ...overcharge })];
+      assert.equal(pointsFor(target, 'repeat_offender', outside), undefined);
+    });
+  });
+
+  describe('cluster', () => {
+    const neighbours = (count: number, overrides: Partial<ViolationReport> & { day?: number } = {}) =>
+      Array.from({ length: count }, () => report({ location: north(200), ...overrides }));
+
+    it('gives 8 points for 2 to 4 nearby reports and 15 for 5 or more', () => {
+      const target = report({ location: HERE });
+      assert.equal(pointsFor(target, 'cluster', neighbours(1)), undefined);
+      assert.equal(pointsFor(target, 'cluster', neighbours(2)), 8);
+      assert.equal(pointsFor(target, 'cluster', neighbours(4)), 8);
+      assert.equal(pointsFor(target, 'cluster', neighbours(5)), 15);
+    });
+
+    it('only counts reports within 500 m', () => {
+      const target = report({ location: HERE });
+      assert.equal(pointsFor(target, 'cluster', neighbours(2, { location: north(450) })), 8);
+      assert.equal(pointsFor(target, 'cluster', neighbours(2, { location: north(600) })), undefined);
+    });
+
+    it('only counts reports within 30 days either side', () => {
+      const target = report({ location: HERE, day: 50 });
+      assert.equal(pointsFor(target, 'cluster', [...neighbours(1, { day: 20 }), ...neighbours(1, { day: 80 })]), 8);
+      assert.equal(pointsFor(target, 'cluster', [...neighbours(1, { day: 19 }), ...neighbours(1, { day: 81 })]), undefined);
+    });
+
+    it('skips reports without a usable location', () => {
+      const broken = { location: {} as ViolationReport['location'] };
+      assert.equal(pointsFor(report(broken), 'cluster', neighbours(5)), undefined);
+      assert.equal(pointsFor(report({ location: HERE }), 'cluster', [...neighbours(1), report(broken), report({ location: null })]), undefined);
+    });
+  });
+
+  describe('score and priority', () => {
+    const cases: [name: string, reportedPrice: number, productCode: string, score: number, priority: string][] = [
+      ['no rules', 1000, 'SOAP', 0, 'low'],
+      ['a slight overcharge', 1001, 'SOAP', 5, 'low'],
+      ['10% on a non-essential product', 1100, 'SOAP', 15, 'normal'],
+      ['25% on a non-essential product', 1250, 'SOAP', 25, 'normal'],
+      ['50% on a non-essential product', 1500, 'SOAP', 35, 'high'],
+      ['50% on an essential product', 1500, 'FLOUR', 50, 'high'],
+      ['100% on an essential product', 2000, 'FLOUR', 60, 'urgent'],
+    ];
+    for (const [name, reportedPrice, productCode, score, priority] of cases) {
+      it(`rates ${name} ${priority} (${score})`, () => {
+        const triage = triageOf(report({ reportedPrice, productCode }));
+        assert.equal(triage.score, score);
+        assert.equal(triage.priority, priority);
+      });
+    }
+
+    it('caps the score at 100 and lists the rules by contribution', () => {
+      const target = report({ reportedPrice: 2000, productCode: 'FLOUR', shopId: 7, location: HERE });
+      const others = Array.from({ length: 5 }, () => report({ reportedPrice: 1500, shopId: 7, location: north(100) }));
+      const triage = triageOf(target, others);
+      assert.equal(triage.score, 100);
+      assert.equal(triage.priority, 'urgent');
+      assert.deepEqual(triage.rules.map(r => [r.id, r.points]), [['overcharge', 45], ['repeat_offender', 30], ['essential', 15], ['cluster', 15]]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { distanceMeters, isLocation, normalizeName } from './shopMatching';
+import { Product, ViolationReport } from './types';
+
+export type TriagePriority = 'urgent' | 'high' | 'normal' | 'low';
+
+export interface TriageRule {
+  id: 'overcharge' | 'essential' | 'repeat_offender' | 'cluster';
+  points: number;
+  /** Human-readable reason shown to reviewers, e.g. "62% above the official price". */
+  detail: string;
+}
+
+export interface Triage {
+  score: number;
+  priority: TriagePriority;
+  /** Only the rules that fired, highest contribution first. */
+  rules: TriageRule[];
+}
+
+// Deterministic and independent of the AI analysis, so the queue is the same whether or not a
+// model was reachable when the report came in. Tune the numbers here; the UI only renders them.
+export const ESSENTIAL_CATEGORIES = ['Energy', 'Grains'];
+
+const OVERCHARGE_POINTS: [minPercent: number, points: number][] = [[100, 45], [50, 35], [25, 25], [10, 15], [0.01, 5]];
+const ESSENTIAL_POINTS = 15;
+const REPEAT_WINDOW_DAYS = 90;
+const REPEAT_POINTS_EACH = 10;
+const REPEAT_POINTS_MAX = 30;
+const CLUSTER_RADIUS_M = 500;
+const CLUSTER_WINDOW_DAYS = 30;
+const CLUSTER_POINTS: [minNeighbours: number, points: number][] = [[5, 15], [2, 8]];
+const PRIORITY_THRESHOLDS: [minScore: number, priority: TriagePriority][] = [[60, 'urgent'], [35, 'high'], [15, 'normal']];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Reports linked to a registry shop are grouped by it; the rest by their normalized shop name. */
+const shopKey = (r: ViolationReport) =>
+  r.shopId != null ? `shop:${r.shopId}` : r.shopName && normalizeName(r.shopName) ? `name:${normalizeName(r.shopName)}` : null;
+
+/** Reports whose price turned out to be within the official one do not count against a shop. */
+const isOffence = (r: ViolationReport) => !r.officialPrice || r.reportedPrice > r.officialPrice;
+
+const within = (a: ViolationReport, b: ViolationReport, days: number) =>
+  Math.abs(new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) <= days * DAY_MS;
+
+/**
+ * Scores every report against the others. Repeat offences and clusters count other reports
+ * within a time window around each one, so the score of an old report does not change when
+ * unrelated new reports arrive months later.
+ */
+export const triageReports = (reports: ViolationReport[], products: Product[]): Map<string, Triage> => {
+  const categoryOf = new Map(products.map(p => [p.code, p.category]));
+  const byShop = new Map<string, ViolationReport[]>();
+  for (const report of reports) {
+    const key = shopKey(report);
+    if (key) byShop.set(key, [...(byShop.get(key) ?? []), report]);
+  }
+
+  const result = new Map<string, Triage>();
+  for (const report of reports) {
+    const rules: TriageRule[] = [];
+
+    if (report.officialPrice && report.reportedPrice > report.officialPrice) {
+      const pct = ((report.reportedPrice - report.officialPrice) / report.officialPrice) * 100;
+      const points = OVERCHARGE_POINTS.find(([min]) => pct >= min)?.[1];
+      if (points) rules.push({ id: 'overcharge', points, detail: `${Math.round(pct)}% above the official price` });
+    }
+
+    const category = categoryOf.get(report.productCode ?? '');
+    if (category && ESSENTIAL_CATEGORIES.includes(category)) {
+      rules.push({ id: 'essential', points: ESSENTIAL_POINTS, detail: `${category} is an essential category` });
+    }
+
+    const key = shopKey(report);
+    if (key) {
+      const others = (byShop.get(key) ?? [])
+        .filter(other => other.id !== report.id && isOffence(other) && within(report, other, REPEAT_WINDOW_DAYS));
+      if (others.length) {
+        rules.push({
+          id: 'repeat_offender',
+          points: Math.min(REPEAT_POINTS_MAX, others.length * REPEAT_POINTS_EACH),
+          detail: `${others.length} other overcharge report(s) against "${report.shopName?.trim() || 'this shop'}" within ${REPEAT_WINDOW_DAYS} days`,
+        });
+      }
+    }
+
+    if (isLocation(report.location)) {
+      const here = report.location;
+      const neighbours = reports.filter(other => other.id !== report.id && isLocation(other.location)
+        && within(report, other, CLUSTER_WINDOW_DAYS) && distanceMeters(here, other.location) <= CLUSTER_RADIUS_M).length;
+      const points = CLUSTER_POINTS.find(([min]) => neighbours >= min)?.[1];
+      if (points) rules.push({ id: 'cluster', points, detail: `${neighbours} other report(s) within ${CLUSTER_RADIUS_M} m in ${CLUSTER_WINDOW_DAYS} days` });
+    }
+
+    rules.sort((a, b) => b.points - a.points);
+    const score = Math.min(100, rules.reduce((sum, rule) => sum + rule.points, 0));
+    const priority = PRIORITY_THRESHOLDS.find(([min]) => score >= min)?.[1] ?? 'low';
+    result.set(report.id, { score, priority, rules });
+  }
+  return result;
+};
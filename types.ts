@@ -4,8 +4,7 @@ export type Language = 'ar' | 'en';
 export interface User {
   id: string;
   username: string;
-  password?: string;
-  role: 'admin' | 'donor' | 'staff';
+  role: 'admin' | 'donor' | 'staff' | 'volunteer';
   name: string;
 }
 
@@ -20,14 +19,85 @@ export interface Product {
   category: string;
 }
 
+/**
+ * One official price of a product, valid from `effectiveDate` until the next revision takes
+ * effect. Revisions are append-only so past reports can be judged against the price of their day.
+ */
+export interface PriceRevision {
+  id: number;
+  productId: number;
+  price: number;
+  effectiveDate: string;
+  /** Decree or publication the price comes from, e.g. "Governor Decree 137/2025". */
+  source: string;
+  editorId?: string;
+  editorName?: string;
+  createdAt: string;
+}
+
+/** Product columns a price sheet can be mapped onto. */
+export type PriceListField = 'code' | 'nameEn' | 'nameAr' | 'category' | 'unit' | 'price';
+
+/** Sheet column header chosen for each field; unmapped fields are left out. */
+export type PriceListMapping = Partial<Record<PriceListField, string>>;
+
+export interface PriceImportIssue {
+  /** 1-based row number as shown in the spreadsheet. */
+  row: number;
+  field?: PriceListField;
+  message: string;
+}
+
+export interface PriceImportChange {
+  row: number;
+  code: string;
+  productId?: number;
+  kind: 'added' | 'changed' | 'unchanged';
+  changes: { field: PriceListField, from?: string | number, to: string | number }[];
+}
+
+export interface PriceImportResult {
+  headers: string[];
+  mapping: PriceListMapping;
+  errors: PriceImportIssue[];
+  changes: PriceImportChange[];
+  /** Codes of existing products absent from the sheet; they are left untouched. */
+  missing: string[];
+  committed: boolean;
+}
+
 export interface CiviCRMStats {
   totalDonors: number;
   activeProjects: number;
   totalDonations: number;
-  lastSync: string;
+  /** Currency the totals are in (contributions in other currencies are not counted). */
+  currency?: string;
+  /** Sum of the revenue goals of active campaigns. */
+  campaignGoal?: number;
+  /** ISO time of the last successful sync; null until the first one. */
+  lastSync: string | null;
   trends: { month: string; amount: number }[];
 }
 
+/** CiviCRM connection settings as the admin UI sees them; the API key itself is write-only. */
+export interface CiviCRMSettings {
+  baseUrl: string;
+  currency: string;
+  hasApiKey: boolean;
+  /** Only sent when changing the key. */
+  apiKey?: string;
+}
+
+export interface CiviCRMHealth {
+  status: 'ok' | 'error' | 'unconfigured';
+  checkedAt: string;
+  latencyMs?: number;
+  message?: string;
+  lastSync: string | null;
+  /** Set when the most recent sync failed; cleared by the next successful one. */
+  lastSyncError: { at: string, message: string } | null;
+}
+
 export interface SlideData {
   id: number;
   image: string;
@@ -49,51 +119,200 @@ export interface RightItem {
   answerKey: string;
 }
 
+export interface PublicationVersion {
+  version: number;
+  type: 'pdf' | 'excel';
+  fileName: string;
+  /** Bytes. */
+  size: number;
+  /** Counted from the PDF; null for spreadsheets. */
+  pages: number | null;
+  note: string;
+  uploadedAt: string;
+  uploadedBy: string;
+  downloads: number;
+}
+
 export interface Publication {
   id: number;
-  type: 'pdf' | 'excel';
-  titleKey: string;
-  size: string;
-  url: string;
+  titleAr: string;
+  titleEn: string;
+  descriptionAr: string;
+  descriptionEn: string;
+  /** Oldest first; the last one is the current file. Empty until the first upload. */
+  versions: PublicationVersion[];
+  /** Summed over every version. */
+  downloads: number;
+  updatedAt: string;
 }
 
-export interface DashboardStat {
-  value: string;
-  labelKey: string;
-  color: string;
+/** A publication whose title or current PDF text contains the search terms, with the matching pages. */
+export interface PublicationSearchResult {
+  publication: Publication;
+  hits: { page: number, snippet: string }[];
 }
 
+export type NewsStatus = 'draft' | 'scheduled' | 'published';
+
 export interface NewsItem {
   id: number;
-  titleKey: string;
-  titleAr?: string;
-  titleEn?: string;
-  descKey: string;
-  descAr?: string;
-  descEn?: string;
-  date: string;
+  /** URL name for /news/:slug, unique across articles. */
+  slug: string;
+  titleAr: string;
+  titleEn: string;
+  summaryAr: string;
+  summaryEn: string;
+  /** Article HTML from the admin editor, sanitised by the server on save. */
+  bodyAr: string;
+  bodyEn: string;
   image: string;
+  status: NewsStatus;
+  /** ISO time the article goes or went live; null for drafts that were never scheduled. */
+  publishedAt: string | null;
+  updatedAt: string;
+  authorName?: string;
 }
 
+/** A file stored by the server's upload endpoints and served under /uploads. */
+export interface UploadedFile {
+  url: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ProjectExpense {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+}
+
+/** A funded programme. Its outcomes are the violation reports that fall within its period and scope. */
+export interface Project {
+  id: number;
+  nameAr: string;
+  nameEn: string;
+  descriptionAr: string;
+  descriptionEn: string;
+  /** Donor accounts funding the project; only they see it in the donor portal. */
+  donorIds: string[];
+  budget: number;
+  currency: string;
+  startDate: string;
+  endDate: string | null;
+  /** Product categories whose reports count towards the project; empty means all. */
+  categories: string[];
+  /** Shop districts whose reports count towards the project; empty means all. */
+  districts: string[];
+  expenses: ProjectExpense[];
+}
+
+export interface ReportOutcomes {
+  reportsReceived: number;
+  resolved: number;
+  /** Share of received reports that are resolved, 0–1; null when nothing was received. */
+  resolutionRate: number | null;
+  medianDaysToResolve: number | null;
+  overchargeReports: number;
+  shopsInvolved: number;
+}
+
+export interface MonthlyReportCount {
+  month: string;
+  received: number;
+  resolved: number;
+}
+
+/** Public transparency figures, recomputed from the stored reports on every request. */
+export interface TransparencyStats {
+  generatedAt: string;
+  /** Outcomes over all reports; `followedUp` counts those staff have reviewed or resolved. */
+  totals: ReportOutcomes & { followedUp: number };
+  topProducts: { code: string | null; nameAr: string; nameEn: string; category: string | null; reports: number; overchargeReports: number }[];
+  topCategories: { category: string; reports: number; overchargeReports: number }[];
+  /** The last twelve calendar months, oldest first. */
+  monthly: MonthlyReportCount[];
+}
+
+export interface ProjectSummary extends Project {
+  spent: number;
+  outcomes: ReportOutcomes;
+  monthly: MonthlyReportCount[];
+}
+
+export type JobType = 'Full-time' | 'Part-time' | 'Volunteer';
+
 export interface JobOpportunity {
   id: number;
   titleAr: string;
   titleEn: string;
-  type: 'Full-time' | 'Part-time' | 'Volunteer';
+  type: JobType;
   location: string;
   descriptionAr: string;
   descriptionEn: string;
-  deadline: string;
+  /** Last day to apply (YYYY-MM-DD); null keeps the posting open until HR closes it. */
+  deadline: string | null;
   postedDate: string;
+  /** Set to "closed" by the server once the deadline has passed. */
+  status: 'open' | 'closed';
+}
+
+export type ApplicationStage = 'received' | 'shortlisted' | 'interviewed' | 'hired' | 'rejected';
+
+export interface ApplicationEvent {
+  stage: ApplicationStage;
+  actorName: string;
+  timestamp: string;
+}
+
+export interface JobApplication {
+  id: number;
+  jobId: number;
+  name: string;
+  email: string;
+  phone?: string;
+  coverLetter?: string;
+  /** The file itself is private and downloaded through the HR-only API. */
+  cv: Omit<UploadedFile, 'url'>;
+  stage: ApplicationStage;
+  submittedAt: string;
+  history: ApplicationEvent[];
+  /** Internal HR remarks, never shown to the applicant. */
+  notes?: string;
 }
 
+/** One generated width of an uploaded image, for `srcset`. */
+export interface MediaVariant {
+  width: number;
+  url: string;
+}
+
+/** Where a video plays from: an uploaded file, or a YouTube/Vimeo player embedded by `url`. */
+export type MediaProvider = 'file' | 'youtube' | 'vimeo';
+
 export interface MediaItem {
   id: number;
   type: 'image' | 'video';
+  /** Largest image variant, the video file, or the embed player URL. */
   url: string;
+  /** Set for videos only. */
+  provider?: MediaProvider;
+  /** Responsive image widths, smallest first; empty for videos and externally hosted images. */
+  variants: MediaVariant[];
+  /** Grid/cover image; may be empty for an uploaded video without a poster. */
+  thumbnail: string;
   captionAr: string;
   captionEn: string;
   date: string;
+  albumId: number | null;
+  tags: string[];
+}
+
+export interface MediaAlbum {
+  id: number;
+  titleAr: string;
+  titleEn: string;
 }
 
 export interface OrganizationProfile {
@@ -109,6 +328,55 @@ export interface OrganizationProfile {
   addressEn: string;
 }
 
+export type ReportStatus = 'pending' | 'reviewed' | 'resolved';
+
+/** Internal reviewer note; never shown to the citizen who filed the report. */
+export interface ReportNote {
+  id: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  timestamp: string;
+}
+
+export interface ReportEvent {
+  id: string;
+  type: 'created' | 'status' | 'assigned' | 'note' | 'shop';
+  actorId?: string;
+  actorName: string;
+  from?: string;
+  to?: string;
+  timestamp: string;
+}
+
+export type ViolationSeverity = 'low' | 'medium' | 'high';
+
+/** Discrepancies between the evidence photo and what the citizen typed. */
+export type EvidenceFlag = 'price_mismatch' | 'product_mismatch' | 'expired' | 'unreadable';
+
+/** What the analysis provider read off the shelf label or receipt in the evidence photo. */
+export interface EvidenceFindings {
+  detectedPrice: number | null;
+  detectedProductName: string | null;
+  /** YYYY-MM-DD when an expiry date is visible. */
+  expiryDate: string | null;
+  flags: EvidenceFlag[];
+}
+
+/** Structured assessment of a report, produced server-side by the configured analysis provider. */
+export interface ViolationAnalysis {
+  /** Overcharge relative to the official price, rounded to one decimal; 0 when not overcharged. */
+  percentageIncrease: number;
+  severity: ViolationSeverity;
+  recommendedAction: string;
+  summary: string;
+  language: Language;
+  /** Which provider produced it, e.g. "gemini" or "stub". */
+  provider: string;
+  /** Present when a photo was attached and the provider can read images. */
+  evidence?: EvidenceFindings;
+}
+
 export interface ViolationReport {
   id: string;
   productCode?: string;
@@ -121,10 +389,63 @@ export interface ViolationReport {
     lng: number;
   } | null;
   description: string;
-  aiAnalysis?: string;
-  status: 'pending' | 'reviewed' | 'resolved';
+  aiAnalysis?: ViolationAnalysis;
+  status: ReportStatus;
   timestamp: string;
   evidenceImage?: string;
+  assigneeId?: string | null;
+  notes?: ReportNote[];
+  history?: ReportEvent[];
+  /** Registry shop the report is about; `shopName` keeps what the citizen typed. */
+  shopId?: number | null;
+  /** Where the citizen asked to be told about progress; staff-only, never on the tracking page. */
+  contact?: ReportContact | null;
+  /** Client-generated id of the submission; resending the same one returns the existing report. */
+  submissionId?: string;
+}
+
+export type NotificationChannel = 'sms' | 'whatsapp' | 'email';
+
+export interface ReportContact {
+  channel: NotificationChannel;
+  /** Phone number in international format for SMS/WhatsApp, otherwise an email address. */
+  address: string;
+  language: Language;
+}
+
+/** What `/track/:id` shows anyone holding the ticket number: status changes only, no notes or reviewers. */
+export interface TrackedReport {
+  id: string;
+  status: ReportStatus;
+  productName?: string;
+  submittedAt: string;
+  updates: { status: ReportStatus, timestamp: string }[];
+}
+
+export interface Shop {
+  id: number;
+  nameAr: string;
+  nameEn: string;
+  district: string;
+  location: { lat: number; lng: number } | null;
+  licenseNumber?: string;
+  /** Other spellings seen in reports or kept from merged duplicates; used for matching. */
+  aliases: string[];
+}
+
+export interface ShopMatch {
+  shopId: number;
+  /** 0–1 similarity; see shopMatching.ts. */
+  score: number;
+}
+
+/** Where the map fetches its basemap from; `offline` means tiles are self-hosted. */
+export interface TileConfig {
+  url: string;
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+  offline: boolean;
 }
 
 export interface Partner {
@@ -134,11 +455,94 @@ export interface Partner {
   logo: string;
 }
 
+/** One observed Taiz market rate in YER. Entries are never edited: a correction is a newer entry. */
+export interface ExchangeRate {
+  id: number;
+  currency: string;
+  buy: number;
+  sell: number;
+  recordedAt: string;
+  /** "Manual entry" or the importer that fetched it. */
+  source: string;
+  editorId?: string;
+  editorName?: string;
+}
+
+/** Latest rate per currency; the indicator compares its sell price with the entry before it. */
 export interface CurrencyRate {
   currency: string;
   buy: number;
   sell: number;
   indicator: 'up' | 'down' | 'stable';
+  recordedAt: string;
+  source: string;
+}
+
+export interface RateImportResult {
+  source: string;
+  recorded: ExchangeRate[];
+  /** Currencies whose imported rate matched the latest entry, so nothing was recorded. */
+  unchanged: string[];
+}
+
+export type SurveyRoundStatus = 'planned' | 'active' | 'closed';
+
+/** What one volunteer covers in a round: these products in the shops of these districts. */
+export interface SurveyAssignment {
+  volunteerId: string;
+  productCodes: string[];
+  districts: string[];
+}
+
+export interface SurveyRound {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+  /** Prices are only accepted while the round is active and within its dates. */
+  status: SurveyRoundStatus;
+  assignments: SurveyAssignment[];
+}
+
+/** One shelf price seen by a volunteer; a later entry for the same shop and product replaces it. */
+export interface PriceObservation {
+  id: number;
+  roundId: number;
+  productCode: string;
+  shopId: number;
+  district: string;
+  price: number;
+  observedAt: string;
+  volunteerId: string;
+  volunteerName: string;
+}
+
+export interface SurveyProductStats {
+  productCode: string;
+  nameAr: string;
+  nameEn: string;
+  unit: string;
+  /** Official price on the last day of the round. */
+  officialPrice: number | null;
+  observations: number;
+  min: number | null;
+  median: number | null;
+  max: number | null;
+  /** (median − official) / official; positive means the market charges more. */
+  deviation: number | null;
+}
+
+export interface SurveyRoundSummary extends SurveyRound {
+  observations: number;
+  products: SurveyProductStats[];
+}
+
+/** A volunteer's view of an active round: only their own products, shops and entries. */
+export interface SurveyTask {
+  round: Pick<SurveyRound, 'id' | 'name' | 'startDate' | 'endDate'>;
+  products: Pick<Product, 'code' | 'nameAr' | 'nameEn' | 'unit'>[];
+  shops: Pick<Shop, 'id' | 'nameAr' | 'nameEn' | 'district'>[];
+  observations: PriceObservation[];
 }
 
 export interface Translation {
@@ -1,10 +1,32 @@
-import { defineConfig } from 'vite';
+import fs from 'node:fs';
+import path from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Writes the hashed files of each build into BUILD_ASSETS in the service worker (public/sw.js),
+ * which precaches them on install. The list changes with every build, so browsers also notice
+ * that the worker changed and install the new one.
+ */
+const precacheBuildAssets = (): Plugin => ({
+  name: 'precache-build-assets',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const worker = path.join(options.dir!, 'sw.js');
+    const assets = Object.keys(bundle).filter(file => file.startsWith('assets/') && !file.endsWith('.map')).map(file => `/${file}`);
+    const source = fs.readFileSync(worker, 'utf8');
+    if (!source.includes('const BUILD_ASSETS = [];')) this.error('sw.js no longer declares BUILD_ASSETS');
+    fs.writeFileSync(worker, source.replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+  plugins: [react(), precacheBuildAssets()],
+  server: {
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT || 3001}`,
+      '/uploads': `http://localhost:${process.env.API_PORT || 3001}`
+    }
   }
-});
\ No newline at end of file
+});